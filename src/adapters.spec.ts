@@ -0,0 +1,263 @@
+import assert from 'node:assert';
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import request from 'supertest';
+
+import { getExpressMiddleware, getFastifyParser, getHttpHandler, getKoaMiddleware } from './adapters.js';
+import { BodyParserGroup } from './body-parser-group.js';
+import { getJsonParser } from './parsers/json.js';
+import { getUrlencodedParser } from './parsers/urlencoded.js';
+
+describe('getExpressMiddleware()', function () {
+  it('should set req.body and call next()', function (done) {
+    const middleware = getExpressMiddleware(getJsonParser({}, true));
+    const server = http.createServer(function (req: any, res) {
+      middleware(req, res, function (err?: any) {
+        res.statusCode = err ? err.status : 200;
+        res.end(err ? '[' + err.type + '] ' + err.message : JSON.stringify(req.body));
+      });
+    });
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should pass error to next()', function (done) {
+    const middleware = getExpressMiddleware(getJsonParser({ limit: 10 }, true));
+    const server = http.createServer(function (req: any, res) {
+      middleware(req, res, function (err?: any) {
+        res.statusCode = err ? err.status : 200;
+        res.end(err ? '[' + err.type + '] ' + err.message : JSON.stringify(req.body));
+      });
+    });
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(413, '[entity.too.large] request entity too large', done);
+  });
+
+  it('should skip already parsed body', function (done) {
+    const middleware = getExpressMiddleware(getJsonParser({}, true));
+    const server = http.createServer(function (req: any, res) {
+      req._body = true;
+      req.body = 'parsed';
+      middleware(req, res, function () {
+        res.end(JSON.stringify(req.body));
+      });
+    });
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(200, '"parsed"', done);
+  });
+
+  it('should accept BodyParserGroup', function (done) {
+    const middleware = getExpressMiddleware(new BodyParserGroup());
+    const server = http.createServer(function (req: any, res) {
+      middleware(req, res, function () {
+        res.end(JSON.stringify(req.body));
+      });
+    });
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'text/plain')
+      .send('user is tobi')
+      .expect(200, '"user is tobi"', done);
+  });
+
+  it('should leave req.body of skipped request for next middleware', function (done) {
+    const server = createStackedExpressServer();
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-www-form-urlencoded')
+      .send('user=tobi')
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should not parse again with next middleware', function (done) {
+    const server = createStackedExpressServer();
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should skip request without body', function (done) {
+    const middleware = getExpressMiddleware(getJsonParser({}, true));
+    const server = http.createServer(function (req: any, res) {
+      middleware(req, res, function () {
+        res.end(JSON.stringify({ body: req.body, parsed: Boolean(req._body) }));
+      });
+    });
+
+    request(server).get('/').expect(200, '{"parsed":false}', done);
+  });
+
+  it('should reject invalid parser', function () {
+    assert.throws(
+      () => getExpressMiddleware({} as any),
+      /TypeError: argument parser must be a parser with the shouldParse method or a BodyParserGroup/,
+    );
+  });
+
+  it('should reject parser without shouldParse', function () {
+    assert.throws(
+      () => getExpressMiddleware(getJsonParser() as any),
+      /TypeError: argument parser must be a parser with the shouldParse method or a BodyParserGroup/,
+    );
+  });
+});
+
+describe('getKoaMiddleware()', function () {
+  it('should set ctx.request.body', async function () {
+    const middleware = getKoaMiddleware(getJsonParser({}, true));
+    const req: any = Readable.from([Buffer.from('{"user":"tobi"}')]);
+    req.headers = { 'content-type': 'application/json', 'content-length': '15' };
+    const ctx = { req, request: {} as any };
+    let nextCalled = false;
+
+    await middleware(ctx, async () => {
+      nextCalled = true;
+    });
+    assert.ok(nextCalled);
+    assert.strictEqual(ctx.request.body.user, 'tobi');
+  });
+
+  it('should throw error with status', async function () {
+    const middleware = getKoaMiddleware(getJsonParser({}, true));
+    const req: any = Readable.from([Buffer.from('{"user"')]);
+    req.headers = { 'content-type': 'application/json', 'content-length': '7' };
+
+    await assert.rejects(
+      middleware({ req, request: {} }, async () => {}),
+      (err: any) => err.status === 400 && err.type === 'entity.parse.failed',
+    );
+  });
+
+  it('should keep body parsed by previous middleware', async function () {
+    const ctx = createKoaContext('application/json', '{"user":"tobi"}');
+
+    await runStackedKoaMiddleware(ctx);
+    assert.deepStrictEqual(ctx.request.body, { user: 'tobi' });
+  });
+
+  it('should parse body skipped by previous middleware', async function () {
+    const ctx = createKoaContext('application/x-www-form-urlencoded', 'user=tobi');
+
+    await runStackedKoaMiddleware(ctx);
+    assert.deepStrictEqual({ ...ctx.request.body }, { user: 'tobi' });
+  });
+
+  it('should not set ctx.request.body without body', async function () {
+    const middleware = getKoaMiddleware(getJsonParser({}, true));
+    const req: any = Readable.from([]);
+    req.headers = {};
+    const ctx = { req, request: {} as any };
+
+    await middleware(ctx, async () => {});
+    assert.ok(!('body' in ctx.request));
+  });
+});
+
+describe('getFastifyParser()', function () {
+  it('should return parsed body', async function () {
+    const contentTypeParser = getFastifyParser(getJsonParser());
+    const headers = { 'content-type': 'application/json', 'content-length': '15' };
+    const body = await contentTypeParser({ headers }, Readable.from([Buffer.from('{"user":"tobi"}')]));
+    assert.strictEqual(body.user, 'tobi');
+  });
+
+  it('should reject error with statusCode', async function () {
+    const contentTypeParser = getFastifyParser(getJsonParser({ limit: 10 }));
+    const headers = { 'content-type': 'application/json', 'content-length': '15' };
+
+    await assert.rejects(
+      contentTypeParser({ headers }, Readable.from([Buffer.from('{"user":"tobi"}')])),
+      (err: any) => err.statusCode === 413,
+    );
+  });
+});
+
+describe('getHttpHandler()', function () {
+  it('should call handler with body', function (done) {
+    const server = http.createServer(
+      getHttpHandler(getJsonParser(), function (req, res, body) {
+        res.end(JSON.stringify(body));
+      }),
+    );
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should respond with exposed error', function (done) {
+    const server = http.createServer(getHttpHandler(getJsonParser({ limit: 10 }), function () {}));
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(413, 'request entity too large', done);
+  });
+
+  it('should not expose error of handler', function (done) {
+    const server = http.createServer(
+      getHttpHandler(getJsonParser(), function () {
+        throw new Error('secret');
+      }),
+    );
+
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"user":"tobi"}')
+      .expect(500, 'Internal Server Error', done);
+  });
+});
+
+function createStackedExpressServer() {
+  const jsonMiddleware = getExpressMiddleware(getJsonParser({}, true));
+  const urlencodedMiddleware = getExpressMiddleware(getUrlencodedParser({}, true));
+
+  return http.createServer(function (req: any, res) {
+    jsonMiddleware(req, res, function (err?: any) {
+      if (err) {
+        res.statusCode = err.status;
+        res.end('[' + err.type + '] ' + err.message);
+        return;
+      }
+
+      urlencodedMiddleware(req, res, function (err?: any) {
+        res.statusCode = err ? err.status : 200;
+        res.end(err ? '[' + err.type + '] ' + err.message : JSON.stringify(req.body));
+      });
+    });
+  });
+}
+
+function createKoaContext(type: string, body: string) {
+  const req: any = Readable.from([Buffer.from(body)]);
+  req.headers = { 'content-type': type, 'content-length': String(body.length) };
+  return { req, request: {} as any };
+}
+
+async function runStackedKoaMiddleware(ctx: { req: any; request: any }) {
+  const jsonMiddleware = getKoaMiddleware(getJsonParser({}, true));
+  const urlencodedMiddleware = getKoaMiddleware(getUrlencodedParser({}, true));
+
+  await jsonMiddleware(ctx, () => urlencodedMiddleware(ctx, async () => {}));
+}
@@ -0,0 +1,217 @@
+import http, { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'node:http';
+import type { Readable } from 'node:stream';
+import debugInit from 'debug';
+import { hasBody } from '@ts-stack/type-is';
+
+import type { BodyParser, BodyParserWithoutCheck } from './types.js';
+import { BodyParserGroup } from './body-parser-group.js';
+
+const debug = debugInit('body-parser:adapters');
+
+/**
+ * Resolved by the parse function of middleware when a request is not parsed.
+ */
+const SKIPPED = Symbol('skipped');
+
+type ParseFn = (req: Readable, headers: IncomingHttpHeaders) => Promise<any>;
+
+interface ExpressRequest extends IncomingMessage {
+  body?: any;
+  _body?: boolean;
+}
+
+interface KoaContext {
+  req: IncomingMessage;
+  request: { body?: any };
+}
+
+interface FastifyRequest {
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * Returns Express/Connect middleware that sets the parsed body to `req.body`.
+ * Errors are passed to `next()`, so the `status` and `type` of an error
+ * can be handled by Express error handlers:
+ *
+ * ```ts
+import express from 'express';
+import { getExpressMiddleware, getJsonParser, getUrlencodedParser } from '@ts-stack/body-parser';
+
+const app = express();
+app.use(getExpressMiddleware(getJsonParser({}, true)));
+app.use(getExpressMiddleware(getUrlencodedParser({}, true)));
+ * ```
+ *
+ * The parser must be created with the `withoutCheck` parameter set to `true`, so that
+ * the middleware can check if it should parse a request. A request without a body, or with
+ * a `Content-Type` that the parser does not accept, is skipped and `req.body` is left as is,
+ * so middleware for other types can parse it. A request is also skipped if its body
+ * has already been parsed by another middleware.
+ */
+export function getExpressMiddleware(parser: BodyParserWithoutCheck | BodyParserGroup<any>) {
+  const parse = getMiddlewareParseFn(parser);
+
+  return function bodyParserMiddleware(req: ExpressRequest, res: ServerResponse, next: (err?: any) => void) {
+    if (req._body) {
+      debug('body already parsed');
+      next();
+      return;
+    }
+
+    parse(req, req.headers).then(
+      (body) => {
+        if (body !== SKIPPED) {
+          req._body = true;
+          req.body = body;
+        }
+        next();
+      },
+      (err) => next(err),
+    );
+  };
+}
+
+/**
+ * Returns Koa middleware that sets the parsed body to `ctx.request.body`. Errors are thrown,
+ * so Koa responds with their `status`, and with their message if they are exposed:
+ *
+ * ```ts
+import Koa from 'koa';
+import { getKoaMiddleware, getJsonParser, getUrlencodedParser } from '@ts-stack/body-parser';
+
+const app = new Koa();
+app.use(getKoaMiddleware(getJsonParser({}, true)));
+app.use(getKoaMiddleware(getUrlencodedParser({}, true)));
+ * ```
+ *
+ * As with `getExpressMiddleware()`, the parser must be created with the `withoutCheck`
+ * parameter set to `true`. A request without a body, with a `Content-Type` that the parser
+ * does not accept, or with `ctx.request.body` already set, is skipped.
+ */
+export function getKoaMiddleware(parser: BodyParserWithoutCheck | BodyParserGroup<any>) {
+  const parse = getMiddlewareParseFn(parser);
+
+  return async function bodyParserMiddleware(ctx: KoaContext, next: () => Promise<any>) {
+    if (ctx.request.body !== undefined) {
+      debug('body already parsed');
+    } else {
+      const body = await parse(ctx.req, ctx.req.headers);
+
+      if (body !== SKIPPED) {
+        ctx.request.body = body;
+      }
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Returns a Fastify content type parser. Errors are rejected with their `statusCode`,
+ * so Fastify responds with it:
+ *
+ * ```ts
+import Fastify from 'fastify';
+import { getFastifyParser, getJsonParser } from '@ts-stack/body-parser';
+
+const fastify = Fastify();
+fastify.removeContentTypeParser('application/json');
+fastify.addContentTypeParser('application/json', getFastifyParser(getJsonParser()));
+ * ```
+ */
+export function getFastifyParser(parser: BodyParser | BodyParserGroup<any>) {
+  const parse = getParseFn(parser);
+
+  return function bodyParserContentTypeParser(request: FastifyRequest, payload: Readable) {
+    return parse(payload, request.headers);
+  };
+}
+
+/**
+ * Returns a `node:http` request listener that calls `handler` with the parsed body.
+ * If the body cannot be parsed, or the handler throws, the response is sent with
+ * the `status` of the error, and with its message if the error is exposed:
+ *
+ * ```ts
+import http from 'node:http';
+import { getHttpHandler, getJsonParser } from '@ts-stack/body-parser';
+
+const server = http.createServer(
+  getHttpHandler(getJsonParser(), (req, res, body) => {
+    res.end(JSON.stringify(body));
+  }),
+);
+ * ```
+ */
+export function getHttpHandler<T = any>(
+  parser: BodyParser | BodyParserGroup<any>,
+  handler: (req: IncomingMessage, res: ServerResponse, body: T) => any,
+) {
+  const parse = getParseFn(parser);
+
+  return async function bodyParserRequestListener(req: IncomingMessage, res: ServerResponse) {
+    try {
+      const body = await parse(req, req.headers);
+      await handler(req, res, body);
+    } catch (err: any) {
+      const status = err.status || err.statusCode || 500;
+      debug('respond with error %d: %s', status, err.message);
+
+      if (res.headersSent) {
+        res.destroy(err);
+        return;
+      }
+
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.end(err.expose ? err.message : http.STATUS_CODES[status]);
+    }
+  };
+}
+
+/**
+ * Get the function that parses a body with a parser or a group of parsers.
+ */
+function getParseFn(parser: BodyParser | BodyParserGroup<any>): ParseFn {
+  if (parser instanceof BodyParserGroup) {
+    return (req, headers) => parser.parse(req, headers, {});
+  } else if (typeof parser == 'function') {
+    return parser;
+  }
+
+  throw new TypeError('argument parser must be a body parser or a BodyParserGroup');
+}
+
+/**
+ * Get the function that parses a body for middleware. It resolves `SKIPPED` for a request
+ * without a body, or that none of the parsers accepts, without reading the request.
+ */
+function getMiddlewareParseFn(parser: BodyParserWithoutCheck | BodyParserGroup<any>): ParseFn {
+  if (parser instanceof BodyParserGroup) {
+    return (req, headers) => {
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return Promise.resolve(SKIPPED);
+      }
+
+      return parser.parse(req, headers, SKIPPED);
+    };
+  } else if (typeof parser == 'function' && typeof parser.shouldParse == 'function') {
+    return (req, headers) => {
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return Promise.resolve(SKIPPED);
+      }
+
+      if (!parser.shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve(SKIPPED);
+      }
+
+      return parser(req, headers);
+    };
+  }
+
+  throw new TypeError('argument parser must be a parser with the shouldParse method or a BodyParserGroup');
+}
@@ -0,0 +1,116 @@
+/**
+ * A queue of values produced while a body is being read, consumed as an `AsyncIterable`.
+ *
+ * The producer calls `push()` for every value and waits for the promise returned by `drain()`,
+ * so that no more than `highWaterMark` values are held in memory. When the consumer stops
+ * the iteration early, the `onReturn` callback is called to stop the producer.
+ */
+export class AsyncQueue<T> implements AsyncIterableIterator<T> {
+  protected values: T[] = [];
+  protected ended = false;
+  protected error: any = null;
+  protected consumer: { resolve: (result: IteratorResult<T>) => void; reject: (err: any) => void } | null = null;
+  protected producers: (() => void)[] = [];
+
+  constructor(
+    protected highWaterMark = 16,
+    protected onReturn?: () => void,
+  ) {}
+
+  push(value: T) {
+    if (this.ended) return;
+
+    if (this.consumer) {
+      const consumer = this.consumer;
+      this.consumer = null;
+      consumer.resolve({ value, done: false });
+    } else {
+      this.values.push(value);
+    }
+  }
+
+  end() {
+    if (this.ended) return;
+
+    this.ended = true;
+    this.settleConsumer();
+  }
+
+  fail(err: any) {
+    if (this.ended) return;
+
+    this.ended = true;
+    this.error = err;
+    this.settleConsumer();
+  }
+
+  /**
+   * Returns a promise that is resolved when the consumer has taken enough values,
+   * or `undefined` if more values can be pushed now.
+   */
+  drain(): Promise<void> | undefined {
+    if (this.values.length < this.highWaterMark || this.ended) {
+      return undefined;
+    }
+
+    return new Promise((resolve) => this.producers.push(resolve));
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.values.length) {
+      const value = this.values.shift()!;
+      this.resumeProducers();
+      return Promise.resolve({ value, done: false });
+    } else if (this.error) {
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    } else if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.consumer = { resolve, reject };
+      this.resumeProducers();
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    if (!this.ended) {
+      this.ended = true;
+      this.onReturn?.();
+    }
+
+    this.values = [];
+    this.error = null;
+    this.resumeProducers();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  protected settleConsumer() {
+    if (!this.consumer || this.values.length) return;
+
+    const consumer = this.consumer;
+    this.consumer = null;
+
+    if (this.error) {
+      const error = this.error;
+      this.error = null;
+      consumer.reject(error);
+    } else {
+      consumer.resolve({ value: undefined, done: true });
+    }
+  }
+
+  protected resumeProducers() {
+    if (this.values.length >= this.highWaterMark && !this.ended) return;
+
+    const producers = this.producers;
+    this.producers = [];
+    producers.forEach((resolve) => resolve());
+  }
+}
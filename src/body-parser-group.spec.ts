@@ -0,0 +1,418 @@
+import assert from 'node:assert';
+import http, { IncomingHttpHeaders } from 'node:http';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import request from 'supertest';
+
+import { BodyParserGroup, BodyParserOptions } from './body-parser-group.js';
+import { getRawParser } from './parsers/raw.js';
+import type { BodyParserWithoutCheck } from './types.js';
+
+describe('BodyParserGroup', function () {
+  it('should return null for request without body', async function () {
+    const bodyParserGroup = new BodyParserGroup();
+    const body = await bodyParserGroup.parse(null as any, {});
+    assert.strictEqual(body, null);
+  });
+
+  it('should return false when no parser matches', function (done) {
+    request(createServer(new BodyParserGroup()))
+      .post('/')
+      .set('Content-Type', 'application/x-foo')
+      .send('foo')
+      .expect(200, 'false', done);
+  });
+
+  describe('with options', function () {
+    it('should honor jsonOptions', function (done) {
+      request(createServer(new BodyParserGroup({ jsonOptions: { limit: 10 } })))
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"user":"tobi"}')
+        .expect(413, '[entity.too.large] request entity too large', done);
+    });
+
+    it('should honor textOptions', function (done) {
+      request(createServer(new BodyParserGroup({ textOptions: { type: 'text/html' } })))
+        .post('/')
+        .set('Content-Type', 'text/html')
+        .send('<b>tobi</b>')
+        .expect(200, '"<b>tobi</b>"', done);
+    });
+
+    it('should honor urlencodedOptions', function (done) {
+      request(createServer(new BodyParserGroup({ urlencodedOptions: { limit: 5 } })))
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('user=tobi')
+        .expect(413, '[entity.too.large] request entity too large', done);
+    });
+
+    it('should honor rawOptions', function (done) {
+      const options: BodyParserOptions = { rawOptions: { type: 'application/vnd+octets' } };
+
+      request(createServer(new BodyParserGroup(options)))
+        .post('/')
+        .set('Content-Type', 'application/vnd+octets')
+        .send('the user is tobi')
+        .expect(200, '"buf:746865207573657220697320746f6269"', done);
+    });
+
+    it('should not parse MessagePack without msgpackOptions', function (done) {
+      request(createServer(new BodyParserGroup()))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(Buffer.from('81a475736572a4746f6269', 'hex'))
+        .expect(200, 'false', done);
+    });
+
+    it('should parse MessagePack with msgpackOptions', function (done) {
+      request(createServer(new BodyParserGroup({ msgpackOptions: {} })))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(Buffer.from('81a475736572a4746f6269', 'hex'))
+        .expect(200, '{"user":"tobi"}', done);
+    });
+
+    it('should parse CBOR with cborOptions', function (done) {
+      request(createServer(new BodyParserGroup({ cborOptions: {} })))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(Buffer.from('a1647573657264746f6269', 'hex'))
+        .expect(200, '{"user":"tobi"}', done);
+    });
+
+    it('should parse XML with xmlOptions', function (done) {
+      request(createServer(new BodyParserGroup({ xmlOptions: {} })))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<user>tobi</user>')
+        .expect(200, '{"user":"tobi"}', done);
+    });
+  });
+
+  describe('with emptyBody option', function () {
+    it('should return the empty body for request without body', async function () {
+      const bodyParserGroup = new BodyParserGroup({ emptyBody: 'undefined' });
+      assert.strictEqual(await bodyParserGroup.parse(null as any, {}, {}), undefined);
+    });
+
+    it('should 400 for request without body when "error"', async function () {
+      const bodyParserGroup = new BodyParserGroup({ emptyBody: 'error' });
+      await assert.rejects(bodyParserGroup.parse(null as any, {}), /request body is empty/);
+      await assert.rejects(bodyParserGroup.parseResult(null as any, {}), /request body is empty/);
+    });
+
+    it('should apply to the parsers', function (done) {
+      request(createServer(new BodyParserGroup({ emptyBody: 'null' })))
+        .post('/')
+        .set('Content-Type', 'text/plain')
+        .send('')
+        .expect(200, 'null', done);
+    });
+
+    it('should be overridden by the options of a parser', function (done) {
+      const bodyParserGroup = new BodyParserGroup({ emptyBody: 'error', jsonOptions: { emptyBody: 'object' } });
+      request(createServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('')
+        .expect(200, '{}', done);
+    });
+  });
+
+  describe('parseResult()', function () {
+    it('should return null for request without body', async function () {
+      const bodyParserGroup = new BodyParserGroup();
+      const result = await bodyParserGroup.parseResult(null as any, {});
+      assert.strictEqual(result, null);
+    });
+
+    it('should return false when no parser matches', function (done) {
+      request(createResultServer(new BodyParserGroup()))
+        .post('/')
+        .set('Content-Type', 'application/x-foo')
+        .send('foo')
+        .expect(200, 'false', done);
+    });
+
+    it('should return json result', function (done) {
+      request(createResultServer(new BodyParserGroup()))
+        .post('/')
+        .set('Content-Type', 'application/json; charset=utf-8')
+        .send('{"user":"tobi"}')
+        .expect(
+          200,
+          '{"kind":"json","body":{"user":"tobi"},"contentType":"application/json; charset=utf-8","charset":"utf-8","bytesRead":15}',
+          done,
+        );
+    });
+
+    it('should return raw result', function (done) {
+      const bodyParserGroup = new BodyParserGroup();
+      const server = http.createServer(async function (req, res) {
+        const result = await bodyParserGroup.parseResult(req, req.headers);
+
+        if (result && result.kind == 'raw') {
+          res.end('buf:' + result.body.toString('hex'));
+        } else {
+          res.end('not raw');
+        }
+      });
+
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/octet-stream')
+        .send('tobi')
+        .expect(200, 'buf:746f6269', done);
+    });
+
+    it('should count bytes before decoding', function (done) {
+      const gzipped: any = zlib.gzipSync('the user is tobi');
+      const test = request(createResultServer(new BodyParserGroup())).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'text/plain');
+      test.write(gzipped);
+      test.expect(
+        200,
+        `{"kind":"text","body":"the user is tobi","contentType":"text/plain","bytesRead":${gzipped.length}}`,
+        done,
+      );
+    });
+
+    it('should return result of registered parser', function (done) {
+      const bodyParserGroup = new BodyParserGroup().register<'foo', string>('foo', getFooParser('application/x-foo'));
+
+      request(createResultServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/x-foo')
+        .set('Content-Length', '3')
+        .send('foo')
+        .expect(200, '{"kind":"foo","body":"foo","contentType":"application/x-foo","bytesRead":3}', done);
+    });
+  });
+
+  describe('with sniff option', function () {
+    it('should parse JSON without Content-Type', function (done) {
+      const test = request(createResultServer(new BodyParserGroup({ sniff: true }))).post('/');
+      test.set('Content-Length', '15');
+      test.write('{"user":"tobi"}');
+      test.expect(
+        200,
+        '{"kind":"json","body":{"user":"tobi"},"contentType":"","bytesRead":15,"sniffed":{"contentType":"application/json","reason":"json"}}',
+        done,
+      );
+    });
+
+    it('should parse JSON sent as application/octet-stream', function (done) {
+      request(createServer(new BodyParserGroup({ sniff: true })))
+        .post('/')
+        .set('Content-Type', 'application/octet-stream')
+        .send('[1,2]')
+        .expect(200, '[1,2]', done);
+    });
+
+    it('should parse urlencoded without Content-Type', function (done) {
+      const test = request(createServer(new BodyParserGroup({ sniff: true }))).post('/');
+      test.set('Transfer-Encoding', 'chunked');
+      test.write('user=tobi&pet=cat');
+      test.expect(200, '{"user":"tobi","pet":"cat"}', done);
+    });
+
+    it('should parse UTF-16 JSON with BOM', function (done) {
+      const test = request(createServer(new BodyParserGroup({ sniff: true }))).post('/');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('{"user":"论"}', 'utf16le')]));
+      test.expect(200, '{"user":"论"}', done);
+    });
+
+    it('should use Content-Type when there is no parser for sniffed type', function (done) {
+      const test = request(createResultServer(new BodyParserGroup({ sniff: true }))).post('/');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('89504e470d0a1a0a', 'hex'));
+      test.expect(200, /^\{"kind":"raw",.*"sniffed":\{"contentType":"image\/png","reason":"magic number"\}\}$/, done);
+    });
+
+    it('should parse empty body', function (done) {
+      request(createServer(new BodyParserGroup({ sniff: true })))
+        .post('/')
+        .set('Content-Type', 'application/octet-stream')
+        .set('Content-Length', '0')
+        .expect(200, '"buf:"', done);
+    });
+
+    it('should not sniff specific Content-Type', function (done) {
+      request(createServer(new BodyParserGroup({ sniff: true })))
+        .post('/')
+        .set('Content-Type', 'text/plain')
+        .send('{"user":"tobi"}')
+        .expect(200, '"{\\"user\\":\\"tobi\\"}"', done);
+    });
+
+    it('should not sniff encoded body', function (done) {
+      const test = request(createServer(new BodyParserGroup({ sniff: true }))).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.write(zlib.gzipSync('{"user":"tobi"}') as any);
+      test.expect(200, 'false', done);
+    });
+
+    it('should not sniff by default', function (done) {
+      const test = request(createServer(new BodyParserGroup())).post('/');
+      test.set('Content-Length', '15');
+      test.write('{"user":"tobi"}');
+      test.expect(200, 'false', done);
+    });
+
+    it('should bound sniffing by the timeout options of the parsers', async function () {
+      const bodyParserGroup = new BodyParserGroup({
+        sniff: true,
+        jsonOptions: { timeout: 5000 },
+        rawOptions: { timeout: 100 },
+      });
+      const stream = new Readable({ read() {} });
+      stream.push('{"u');
+
+      await assert.rejects(bodyParserGroup.parse(stream, { 'transfer-encoding': 'chunked' }), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.timeout');
+        return true;
+      });
+      stream.destroy();
+    });
+
+    it('should bound sniffing by the minBytesPerSecond options of the parsers', async function () {
+      const bodyParserGroup = new BodyParserGroup({ sniff: true, textOptions: { minBytesPerSecond: 100 } });
+      const stream = new Readable({ read() {} });
+      stream.push('{"u');
+
+      await assert.rejects(bodyParserGroup.parse(stream, { 'transfer-encoding': 'chunked' }), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.too.slow');
+        return true;
+      });
+      stream.destroy();
+    });
+
+    it('should cancel sniffing with signal', async function () {
+      const bodyParserGroup = new BodyParserGroup({ sniff: true });
+      const stream = new Readable({ read() {} });
+      stream.push('{"u');
+      const body = bodyParserGroup.parse(stream, { 'transfer-encoding': 'chunked' }, null, AbortSignal.timeout(100));
+
+      await assert.rejects(body, (err: any) => {
+        assert.strictEqual(err.name, 'AbortError');
+        assert.strictEqual(err.type, 'request.aborted');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
+  describe('register()', function () {
+    it('should dispatch to registered parser', function (done) {
+      const bodyParserGroup = new BodyParserGroup();
+      bodyParserGroup.register('foo', getFooParser('application/x-foo'));
+
+      request(createServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/x-foo')
+        .send('foo')
+        .expect(200, '"foo"', done);
+    });
+
+    it('should check parsers with higher priority first', function (done) {
+      const bodyParserGroup = new BodyParserGroup();
+      bodyParserGroup.register('foo', getFooParser('application/json'), { priority: 60 });
+
+      request(createServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"user":"tobi"}')
+        .expect(200, '"foo"', done);
+    });
+
+    it('should check built-in parsers first with default priority', function (done) {
+      const bodyParserGroup = new BodyParserGroup();
+      bodyParserGroup.register('foo', getFooParser('application/json'));
+
+      request(createServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"user":"tobi"}')
+        .expect(200, '{"user":"tobi"}', done);
+    });
+
+    it('should keep order of registration for equal priority', function (done) {
+      const bodyParserGroup = new BodyParserGroup();
+      bodyParserGroup.register('foo', getFooParser('application/x-foo'));
+      bodyParserGroup.register('bar', getFooParser('application/x-foo', 'bar'));
+
+      request(createServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/x-foo')
+        .send('foo')
+        .expect(200, '"foo"', done);
+    });
+
+    it('should replace parser with the same name', function (done) {
+      const bodyParserGroup = new BodyParserGroup();
+      bodyParserGroup.register('raw', getRawParser({ type: 'application/x-foo' }, true), { priority: 10 });
+
+      request(createServer(bodyParserGroup))
+        .post('/')
+        .set('Content-Type', 'application/octet-stream')
+        .send('foo')
+        .expect(200, 'false', done);
+    });
+
+    it('should reject parser without shouldParse', function () {
+      const bodyParserGroup = new BodyParserGroup();
+      assert.throws(
+        () => bodyParserGroup.register('foo', getRawParser() as any),
+        /TypeError: argument parser must be a parser with the shouldParse method/,
+      );
+    });
+
+    it('should reject invalid priority', function () {
+      const bodyParserGroup = new BodyParserGroup();
+      assert.throws(
+        () => bodyParserGroup.register('foo', getFooParser('application/x-foo'), { priority: NaN }),
+        /TypeError: option priority must be a number/,
+      );
+    });
+  });
+});
+
+function getFooParser(type: string, value = 'foo') {
+  async function fooParser(req: any) {
+    req.resume();
+    return value;
+  }
+
+  fooParser.shouldParse = (headers: IncomingHttpHeaders) => headers['content-type'] === type;
+  return fooParser as BodyParserWithoutCheck;
+}
+
+function createServer(bodyParserGroup: BodyParserGroup) {
+  return http.createServer(async function (req, res) {
+    try {
+      const body = await bodyParserGroup.parse(req, req.headers);
+      res.end(JSON.stringify(Buffer.isBuffer(body) ? 'buf:' + body.toString('hex') : body));
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end('[' + err.type + '] ' + err.message);
+    }
+  });
+}
+
+function createResultServer(bodyParserGroup: BodyParserGroup<any>) {
+  return http.createServer(async function (req, res) {
+    try {
+      const result = await bodyParserGroup.parseResult(req, req.headers);
+      res.end(JSON.stringify(result));
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end('[' + err.type + '] ' + err.message);
+    }
+  });
+}
@@ -3,11 +3,30 @@ import { Readable } from 'node:stream';
 import debugInit from 'debug';
 import { hasBody } from '@ts-stack/type-is';
 
-import type { BodyParserWithoutCheck, JsonOptions, RawOptions, TextOptions, UrlencodedOptions } from './types.js';
+import type {
+  BodyParserWithoutCheck,
+  CborOptions,
+  EmptyBodyAction,
+  JsonOptions,
+  MultipartBody,
+  MsgpackOptions,
+  MultipartOptions,
+  RawOptions,
+  TextOptions,
+  UrlencodedOptions,
+  XmlOptions,
+} from './types.js';
 import { getJsonParser } from './parsers/json.js';
 import { getTextParser } from './parsers/text.js';
 import { getUrlencodedParser } from './parsers/urlencoded.js';
 import { getRawParser } from './parsers/raw.js';
+import { getMultipartParser } from './parsers/multipart.js';
+import { getMsgpackParser } from './parsers/msgpack.js';
+import { getCborParser } from './parsers/cbor.js';
+import { getXmlParser } from './parsers/xml.js';
+import { getBytesRead } from './read.js';
+import { getCharset, getEmptyBody } from './utils.js';
+import { peek, PeekOptions, sniff, SNIFF_LENGTH, SniffResult } from './sniff.js';
 
 const debug = debugInit('body-parser:group');
 
@@ -16,6 +35,110 @@ export class BodyParserOptions {
   textOptions?: TextOptions = {};
   urlencodedOptions?: UrlencodedOptions = {};
   rawOptions?: RawOptions = {};
+  multipartOptions?: MultipartOptions = {};
+  /**
+   * When set, the `msgpack` parser is registered with these options, with the priority `15`.
+   */
+  msgpackOptions?: MsgpackOptions;
+  /**
+   * When set, the `cbor` parser is registered with these options, with the priority `15`.
+   */
+  cborOptions?: CborOptions;
+  /**
+   * When set, the `xml` parser is registered with these options, with the priority `15`.
+   */
+  xmlOptions?: XmlOptions;
+  /**
+   * When set to `true`, the media type of a body without `Content-Type`, or with
+   * `Content-Type: application/octet-stream`, is detected by the first bytes of the body
+   * (JSON, urlencoded, text with a BOM, known magic numbers), and the parser is chosen
+   * by the detected media type. Bodies with a `Content-Encoding` are not sniffed.
+   * Waiting for the first bytes is bounded by the strictest `timeout` and `minBytesPerSecond`
+   * options of the built-in parsers, and is cancelled by the `signal` passed to `parse`.
+   * Defaults to `false`.
+   */
+  sniff?: boolean = false;
+  /**
+   * What is returned for a request without a body: `{}` (`'object'`), `null` (`'null'`)
+   * or `undefined` (`'undefined'`); with `'error'`, a 400 with the `'entity.empty'` type is
+   * returned. It is also the default of the `emptyBody` option of the `json`, `text`,
+   * `urlencoded` and `raw` parsers, for bodies of zero length. When not set, `parse` returns
+   * its `defaultValue` (or `null`) for a request without a body.
+   */
+  emptyBody?: EmptyBodyAction;
+}
+
+/**
+ * The media types for which the body is sniffed, if the `sniff` option is enabled.
+ */
+const GENERIC_TYPES = ['', 'application/octet-stream'];
+
+export interface RegisterOptions {
+  /**
+   * Parsers with higher priority are checked first, parsers with equal priority are checked
+   * in the order they were registered. The built-in parsers have the following priorities:
+   * `json` - 50, `text` - 40, `urlencoded` - 30, `multipart` - 20, `msgpack`, `cbor` and `xml` - 15, `raw` - 10. Defaults to `0`.
+   */
+  priority?: number;
+}
+
+/**
+ * The types of bodies returned by the built-in parsers, by the names of the parsers.
+ */
+export interface BuiltInBodies {
+  json: any;
+  text: string;
+  urlencoded: Record<string, any>;
+  multipart: MultipartBody;
+  raw: Buffer;
+  /**
+   * Only if the `msgpackOptions` option is set.
+   */
+  msgpack: any;
+  /**
+   * Only if the `cborOptions` option is set.
+   */
+  cbor: any;
+  /**
+   * Only if the `xmlOptions` option is set.
+   */
+  xml: any;
+}
+
+/**
+ * The result of `BodyParserGroup#parseResult()`. The `kind` property is the name of the parser
+ * that parsed the body, so checking it narrows the type of the `body` property.
+ */
+export type BodyParserResult<TBodies extends object = BuiltInBodies> = {
+  [K in keyof TBodies]: {
+    kind: K;
+    body: TBodies[K];
+    /**
+     * The `Content-Type` header of the request.
+     */
+    contentType: string;
+    /**
+     * The charset from the `Content-Type` header of the request, if any.
+     */
+    charset: string | undefined;
+    /**
+     * The number of bytes of the body read from the request, before decoding
+     * of the `Content-Encoding`.
+     */
+    bytesRead: number;
+    /**
+     * The media type detected by sniffing, if the `sniff` option is enabled and the media type
+     * was detected. The parser is chosen by this media type if there is a parser for it,
+     * otherwise by the `Content-Type` header.
+     */
+    sniffed?: SniffResult;
+  };
+}[keyof TBodies];
+
+interface RegisteredParser {
+  name: string;
+  parser: BodyParserWithoutCheck;
+  priority: number;
 }
 
 /**
@@ -31,55 +154,282 @@ const bodyParserGroup = new BodyParserGroup({
   textOptions: config.textOptions,
   urlencodedOptions: config.urlencodedOptions,
   rawOptions: config.rawOptions,
+  multipartOptions: config.multipartOptions,
 });
 
 const body = await bodyParserGroup.parse(req, req.headers, {});
  * ```
  */
-export class BodyParserGroup {
+export class BodyParserGroup<TBodies extends object = BuiltInBodies> {
   protected json: BodyParserWithoutCheck;
   protected text: BodyParserWithoutCheck;
   protected urlencoded: BodyParserWithoutCheck;
   protected raw: BodyParserWithoutCheck;
+  protected multipart: BodyParserWithoutCheck;
+  protected parsers: RegisteredParser[] = [];
+  protected sniffing: boolean;
+  protected sniffOptions: PeekOptions;
+  protected emptyBody?: () => any;
 
   constructor(bodyParsersOptions = new BodyParserOptions()) {
-    this.json = getJsonParser(bodyParsersOptions.jsonOptions!, true);
-    this.text = getTextParser(bodyParsersOptions.jsonOptions!, true);
-    this.urlencoded = getUrlencodedParser(bodyParsersOptions.jsonOptions!, true);
-    this.raw = getRawParser(bodyParsersOptions.jsonOptions!, true);
+    const emptyBody = bodyParsersOptions.emptyBody;
+    this.sniffing = bodyParsersOptions.sniff || false;
+    this.sniffOptions = getSniffOptions(bodyParsersOptions);
+    this.emptyBody = emptyBody !== undefined ? getEmptyBody(emptyBody) : undefined;
+    this.json = getJsonParser({ emptyBody, ...bodyParsersOptions.jsonOptions }, true);
+    this.text = getTextParser({ emptyBody, ...bodyParsersOptions.textOptions }, true);
+    this.urlencoded = getUrlencodedParser({ emptyBody, ...bodyParsersOptions.urlencodedOptions }, true);
+    this.raw = getRawParser({ emptyBody, ...bodyParsersOptions.rawOptions }, true);
+    this.multipart = getMultipartParser(bodyParsersOptions.multipartOptions || {}, true);
+
+    this.register('json', this.json, { priority: 50 });
+    this.register('text', this.text, { priority: 40 });
+    this.register('urlencoded', this.urlencoded, { priority: 30 });
+    this.register('multipart', this.multipart, { priority: 20 });
+    this.register('raw', this.raw, { priority: 10 });
+
+    if (bodyParsersOptions.msgpackOptions) {
+      const msgpackOptions = { emptyBody, ...bodyParsersOptions.msgpackOptions };
+      this.register('msgpack', getMsgpackParser(msgpackOptions, true), { priority: 15 });
+    }
+
+    if (bodyParsersOptions.cborOptions) {
+      const cborOptions = { emptyBody, ...bodyParsersOptions.cborOptions };
+      this.register('cbor', getCborParser(cborOptions, true), { priority: 15 });
+    }
+
+    if (bodyParsersOptions.xmlOptions) {
+      const xmlOptions = { emptyBody, ...bodyParsersOptions.xmlOptions };
+      this.register('xml', getXmlParser(xmlOptions, true), { priority: 15 });
+    }
+  }
+
+  /**
+   * Registers a parser to participate in dispatch of the `parse` method. The parser must be created
+   * with the `withoutCheck` parameter set to `true` (or have its own `shouldParse` method):
+   *
+   * ```ts
+bodyParserGroup.register('msgpack', getMsgpackParser({}, true), { priority: 60 });
+   * ```
+   *
+   * A parser registered with the name of an existing one (for example `json`) replaces it.
+   */
+  register<TName extends string, TBody = any>(
+    name: TName,
+    parser: BodyParserWithoutCheck,
+    options: RegisterOptions = {},
+  ): BodyParserGroup<Omit<TBodies, TName> & Record<TName, TBody>> {
+    if (typeof parser != 'function' || typeof parser.shouldParse != 'function') {
+      throw new TypeError('argument parser must be a parser with the shouldParse method');
+    }
+
+    const priority = options.priority !== undefined ? options.priority : 0;
+
+    if (isNaN(priority)) {
+      throw new TypeError('option priority must be a number');
+    }
+
+    const registered: RegisteredParser = { name, parser, priority };
+    const index = this.parsers.findIndex((item) => item.name === name);
+
+    if (index !== -1) {
+      debug('replace parser "%s"', name);
+      this.parsers.splice(index, 1);
+    }
+
+    // keep the order of registration for equal priorities
+    const position = this.parsers.findIndex((item) => item.priority < priority);
+    this.parsers.splice(position !== -1 ? position : this.parsers.length, 0, registered);
+    return this as BodyParserGroup<any>;
   }
 
   /**
    * This method consistently checks the correspondence between the headers accepted
-   * by a certain parser and the header passed to it in the `headers` parameter.
+   * by the registered parsers and the header passed to it in the `headers` parameter.
    * When it finds a match, it uses the found parser for the current request.
    *
    * If the request has no body, this method returns `null`. If no matching parser is found,
    * this method returns `false`. But you can change this behavior if you pass
    * a third parameter `defaultValue`, whose value will be returned in these
-   * two cases (request with no body, or no matching parser found).
+   * two cases (request with no body, or no matching parser found). If the `emptyBody` option
+   * is set, it takes precedence over `defaultValue` for a request with no body.
+   *
+   * The fourth parameter `signal` cancels reading of the body, it is passed to the found parser.
    */
-  parse<T = any>(req: Readable, headers: IncomingHttpHeaders, defaultValue?: undefined): Promise<T | null | false>;
-  parse<T = any>(req: Readable, headers: IncomingHttpHeaders, defaultValue: T): Promise<T>;
-  parse<T = any>(req: Readable, headers: IncomingHttpHeaders, defaultValue?: any): Promise<T | null | false> {
+  parse<T = any>(
+    req: Readable,
+    headers: IncomingHttpHeaders,
+    defaultValue?: undefined,
+    signal?: AbortSignal,
+  ): Promise<T | null | false>;
+  parse<T = any>(req: Readable, headers: IncomingHttpHeaders, defaultValue: T, signal?: AbortSignal): Promise<T>;
+  async parse<T = any>(
+    req: Readable,
+    headers: IncomingHttpHeaders,
+    defaultValue?: any,
+    signal?: AbortSignal,
+  ): Promise<T | null | false> {
     if (!hasBody(headers)) {
       debug('skip empty body');
-      return Promise.resolve(defaultValue !== undefined ? defaultValue : null);
+
+      if (this.emptyBody) {
+        return this.emptyBody();
+      }
+
+      return defaultValue !== undefined ? defaultValue : null;
     }
 
+    const match = await this.match(req, headers, signal);
+
+    if (!match) {
+      return defaultValue !== undefined ? defaultValue : false;
+    }
+
+    return match.registered.parser(match.req, match.headers, signal);
+  }
+
+  /**
+   * Works like the `parse` method, but returns the body together with the name of the parser
+   * that parsed it in the `kind` property, so you can branch on how the body was interpreted:
+   *
+   * ```ts
+const result = await bodyParserGroup.parseResult(req, req.headers);
+
+if (result && result.kind == 'raw') {
+  // here result.body is a Buffer
+}
+   * ```
+   *
+   * If the request has no body, this method returns `null`, or throws a 400 if the `emptyBody`
+   * option is `'error'`. If no matching parser is found, this method returns `false`.
+   */
+  async parseResult(
+    req: Readable,
+    headers: IncomingHttpHeaders,
+    signal?: AbortSignal,
+  ): Promise<BodyParserResult<TBodies> | null | false> {
+    if (!hasBody(headers)) {
+      debug('skip empty body');
+      // throws with the 'error' option
+      this.emptyBody?.();
+      return null;
+    }
+
+    const match = await this.match(req, headers, signal);
+
+    if (!match) {
+      return false;
+    }
+
+    const body = await match.registered.parser(match.req, match.headers, signal);
+    const bytesRead = getBytesRead(match.req);
+    const result = {
+      kind: match.registered.name,
+      body,
+      contentType: headers['content-type'] || '',
+      charset: getCharset(match.headers) || undefined,
+      bytesRead: bytesRead !== undefined ? bytesRead : Number(headers['content-length']) || 0,
+    } as BodyParserResult<TBodies>;
+
+    if (match.sniffed) {
+      result.sniffed = match.sniffed;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the parser for a request, sniffing the body if it is enabled. When the parser is chosen
+   * by sniffing, the returned headers contain the detected `Content-Type`. The returned stream
+   * should be passed to the parser instead of the request.
+   */
+  protected async match(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    let sniffed: SniffResult | undefined;
+
+    if (this.sniffing && this.shouldSniff(headers)) {
+      const buf = await peek(req, SNIFF_LENGTH, { ...this.sniffOptions, signal });
+      sniffed = sniff(buf);
+
+      // the end of an empty body may be emitted while peeking, so it cannot be read again
+      if (!buf.length && req.readableEnded) {
+        req = Readable.from([]);
+      }
+
+      if (sniffed) {
+        debug('sniffed "%s" by %s', sniffed.contentType, sniffed.reason);
+        const sniffedHeaders = { ...headers, 'content-type': sniffed.contentType };
+        const registered = this.findParser(sniffedHeaders);
+
+        if (registered) {
+          return { registered, req, headers: sniffedHeaders, sniffed };
+        }
+      } else {
+        debug('nothing sniffed');
+      }
+    }
+
+    const registered = this.findParser(headers);
+    return registered ? { registered, req, headers, sniffed } : undefined;
+  }
+
+  /**
+   * Check if the body of a request should be sniffed.
+   */
+  protected shouldSniff(headers: IncomingHttpHeaders) {
+    const encoding = (headers['content-encoding'] || 'identity').trim().toLowerCase();
+    const type = (headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    return encoding === 'identity' && GENERIC_TYPES.includes(type);
+  }
+
+  /**
+   * Find the registered parser that should parse a request with these headers.
+   */
+  protected findParser(headers: IncomingHttpHeaders) {
     debug(`content-type ${headers['content-type']}`);
 
-    if (this.json.shouldParse(headers)) {
-      return this.json(req, headers);
-    } else if (this.text.shouldParse(headers)) {
-      return this.text(req, headers) as any;
-    } else if (this.urlencoded.shouldParse(headers)) {
-      return this.urlencoded(req, headers);
-    } else if (this.raw.shouldParse(headers)) {
-      return this.raw(req, headers) as any;
+    for (const registered of this.parsers) {
+      if (registered.parser.shouldParse(headers)) {
+        debug('parse with "%s"', registered.name);
+        return registered;
+      }
     }
 
-    debug('skip parsing: json, text, urlencoded and raw');
-    return Promise.resolve(defaultValue !== undefined ? defaultValue : false);
+    debug('skip parsing: %s', this.parsers.map((item) => item.name).join(', '));
+    return undefined;
   }
 }
+
+/**
+ * Get the limits of peeking a body for sniffing, that are the strictest of the `timeout`
+ * and `minBytesPerSecond` options of the built-in parsers, since any of them may parse the body.
+ */
+function getSniffOptions(bodyParsersOptions: BodyParserOptions): PeekOptions {
+  const parsersOptions = [
+    bodyParsersOptions.jsonOptions,
+    bodyParsersOptions.textOptions,
+    bodyParsersOptions.urlencodedOptions,
+    bodyParsersOptions.rawOptions,
+    bodyParsersOptions.multipartOptions,
+    bodyParsersOptions.msgpackOptions,
+    bodyParsersOptions.cborOptions,
+    bodyParsersOptions.xmlOptions,
+  ];
+  const options: PeekOptions = {};
+
+  for (const parserOptions of parsersOptions) {
+    const { timeout, minBytesPerSecond } = parserOptions || {};
+
+    if (timeout !== undefined && (options.timeout === undefined || timeout < options.timeout)) {
+      options.timeout = timeout;
+    }
+
+    if (
+      minBytesPerSecond !== undefined &&
+      (options.minBytesPerSecond === undefined || minBytesPerSecond > options.minBytesPerSecond)
+    ) {
+      options.minBytesPerSecond = minBytesPerSecond;
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,504 @@
+import createError from 'http-errors';
+
+import { formatPath, JsonPath } from './json-tokenizer.js';
+import type { CborTagFn, JsonLimitOptions } from './types.js';
+import { setOwnProperty, toSafeNumber } from './utils.js';
+
+/**
+ * The tag of the self-described CBOR prefix (`0xd9d9f7`).
+ */
+const SELF_DESCRIBED_TAG = 55799;
+
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+/**
+ * The additional information of indefinite-length items and of the "break" stop code.
+ */
+const INDEFINITE = 31;
+
+export interface CborDecoderOptions extends JsonLimitOptions {
+  /**
+   * When `true`, the top-level value must be a map or an array.
+   */
+  strict?: boolean;
+  /**
+   * When `false`, indefinite-length items are rejected.
+   */
+  indefiniteLength?: boolean;
+  tags?: Record<number, CborTagFn>;
+}
+
+/**
+ * An array, a map, a tag or an indefinite-length string that is being decoded.
+ */
+interface Frame {
+  major: number;
+  value: any;
+  /**
+   * The number of items, or `null` for indefinite-length items.
+   */
+  length: number | null;
+  /**
+   * The number of decoded items, or of decoded keys and values of a map.
+   */
+  count: number;
+  key?: string;
+  tag?: number;
+  chunks?: Buffer[];
+  /**
+   * The number of bytes of the chunks of a string.
+   */
+  size?: number;
+  start: number;
+}
+
+/**
+ * Decoder of CBOR data, as defined by RFC 8949. The data is decoded without recursion,
+ * so that deeply nested data can't overflow the stack, and the lengths of maps, arrays
+ * and strings are checked against the limits and the size of the data before anything
+ * is allocated for them; for indefinite-length items, the limits are checked as items
+ * and chunks are added.
+ *
+ * Maps are decoded to plain objects, with string or number keys. Integers that are not safe
+ * are decoded to a `bigint`, byte strings to a `Buffer`, and `undefined` is kept.
+ *
+ * Malformed data is reported with a 400 error with the `'entity.parse.failed'` type
+ * and the `position` of the error.
+ */
+export class CborDecoder {
+  protected buf: Buffer = Buffer.alloc(0);
+  protected pos = 0;
+  protected frames: Frame[] = [];
+  protected path: JsonPath = [];
+  protected depth = 0;
+  protected tags: Record<number, CborTagFn>;
+  protected textDecoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+  constructor(protected options: CborDecoderOptions = {}) {
+    this.tags = { 0: decodeDateString, 1: decodeEpochDate, 2: decodeBignum, 3: decodeBignum, ...options.tags };
+  }
+
+  decode(buf: Buffer) {
+    this.buf = buf;
+    this.pos = 0;
+    this.frames = [];
+    this.path = [];
+    this.depth = 0;
+
+    if (this.options.strict) {
+      // the self-described CBOR prefix can precede the value
+      const start = buf[0] === 0xd9 && buf[1] === 0xd9 && buf[2] === 0xf7 ? 3 : 0;
+      const major = buf[start] >> 5;
+
+      if (major !== MAJOR_ARRAY && major !== MAJOR_MAP) {
+        throw this.createSyntaxError('Unexpected CBOR value', start);
+      }
+    }
+
+    let value = this.readValue();
+
+    for (;;) {
+      const frame = this.frames[this.frames.length - 1];
+
+      if (value === FRAME) {
+        value = frame.length === 0 ? this.endFrame() : this.readValue();
+        continue;
+      }
+
+      if (value === BREAK) {
+        if (!frame || frame.length !== null || (frame.major === MAJOR_MAP && frame.count % 2 === 1)) {
+          throw this.createSyntaxError('Unexpected CBOR break', this.pos - 1);
+        }
+
+        value = this.endFrame();
+        continue;
+      }
+
+      if (!frame) {
+        break;
+      }
+
+      value = this.addValue(frame, value) ? this.endFrame() : this.readValue();
+    }
+
+    if (this.pos < buf.length) {
+      throw this.createSyntaxError('Unexpected data after CBOR value', this.pos);
+    }
+
+    return value;
+  }
+
+  /**
+   * Read a value. For an array, a map, a tag or an indefinite-length string, a frame
+   * is pushed to `frames`, and `FRAME` is returned; for the "break" stop code, `BREAK`
+   * is returned.
+   */
+  protected readValue(): any {
+    const start = this.pos;
+    const initial = this.readUInt(1);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    const parent = this.frames[this.frames.length - 1];
+
+    // the chunks of an indefinite-length string must be definite-length strings of the same type
+    if (parent && (parent.major === MAJOR_BYTES || parent.major === MAJOR_TEXT) && initial !== 0xff) {
+      if (major !== parent.major || info === INDEFINITE) {
+        throw this.createSyntaxError('Invalid chunk of indefinite-length CBOR string', start);
+      }
+    }
+
+    if (info === INDEFINITE) {
+      if (major === MAJOR_SIMPLE) {
+        return BREAK;
+      }
+
+      if (major < MAJOR_BYTES || major === MAJOR_TAG) {
+        throw this.createSyntaxError(`Unexpected byte 0x${initial.toString(16)} in CBOR`, start);
+      }
+
+      if (this.options.indefiniteLength === false) {
+        throw this.createSyntaxError('Indefinite-length CBOR item is not allowed', start);
+      }
+
+      return this.startFrame(major, null, start);
+    }
+
+    if (info > 27) {
+      throw this.createSyntaxError(`Unexpected byte 0x${initial.toString(16)} in CBOR`, start);
+    }
+
+    if (major === MAJOR_SIMPLE) {
+      return this.readSimple(info, start);
+    }
+
+    const arg = this.readArgument(info);
+
+    switch (major) {
+      case 0:
+        return arg;
+      case 1:
+        return typeof arg == 'number' && arg < Number.MAX_SAFE_INTEGER ? -1 - arg : toSafeNumber(-1n - BigInt(arg));
+      case MAJOR_BYTES:
+        return this.readBytes(Number(arg));
+      case MAJOR_TEXT:
+        return this.readText(Number(arg), start);
+      case MAJOR_TAG:
+        return this.startFrame(major, 1, start, Number(arg));
+      default:
+        return this.startFrame(major, Number(arg), start);
+    }
+  }
+
+  protected readSimple(info: number, start: number) {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return decodeHalf(this.readUInt(2));
+      case 26:
+        this.need(4);
+        this.pos += 4;
+        return this.buf.readFloatBE(this.pos - 4);
+      case 27:
+        this.need(8);
+        this.pos += 8;
+        return this.buf.readDoubleBE(this.pos - 8);
+    }
+
+    const simple = info === 24 ? this.readUInt(1) : info;
+    throw this.createSyntaxError(`Unsupported CBOR simple value ${simple}`, start);
+  }
+
+  protected readArgument(info: number): number | bigint {
+    if (info < 24) return info;
+    if (info < 27) return this.readUInt(1 << (info - 24));
+
+    this.need(8);
+    this.pos += 8;
+    return toSafeNumber(this.buf.readBigUInt64BE(this.pos - 8));
+  }
+
+  protected startFrame(major: number, length: number | null, start: number, tag?: number) {
+    const parent = this.frames[this.frames.length - 1];
+
+    if (major === MAJOR_ARRAY || major === MAJOR_MAP) {
+      const { maxDepth } = this.options;
+
+      if (parent && parent.major === MAJOR_MAP && parent.count % 2 === 0) {
+        throw this.createSyntaxError('CBOR map key must be a string or a number', start);
+      }
+
+      if (maxDepth !== undefined && this.depth + 1 > maxDepth) {
+        throw createError(413, 'CBOR depth limit exceeded', {
+          limit: maxDepth,
+          path: formatPath(this.path),
+          type: 'entity.depth.exceeded',
+        });
+      }
+
+      if (length !== null) {
+        this.checkCount(major === MAJOR_MAP, length);
+        // every item takes at least one byte
+        this.need(major === MAJOR_MAP ? length * 2 : length);
+      }
+
+      this.depth++;
+      this.path.push(major === MAJOR_MAP ? '' : 0);
+    }
+
+    this.frames.push({
+      major,
+      value: major === MAJOR_MAP ? {} : major === MAJOR_ARRAY ? new Array(length || 0) : undefined,
+      length,
+      count: 0,
+      tag,
+      chunks: major === MAJOR_BYTES || major === MAJOR_TEXT ? [] : undefined,
+      size: 0,
+      start,
+    });
+    return FRAME;
+  }
+
+  /**
+   * Add a value to a frame, and return whether the frame is complete.
+   */
+  protected addValue(frame: Frame, value: any) {
+    switch (frame.major) {
+      case MAJOR_TAG:
+        frame.value = value;
+        return true;
+      case MAJOR_BYTES:
+      case MAJOR_TEXT:
+        frame.chunks!.push(value);
+        return false;
+      case MAJOR_ARRAY:
+        if (frame.length === null) {
+          this.checkCount(false, frame.count + 1);
+        }
+
+        frame.value[frame.count++] = value;
+
+        if (frame.count === frame.length) {
+          return true;
+        }
+
+        this.path[this.path.length - 1] = frame.count;
+        return false;
+    }
+
+    if (frame.count % 2 === 0) {
+      if (frame.length === null) {
+        this.checkCount(true, frame.count / 2 + 1);
+      }
+
+      frame.key = this.toKey(value);
+      this.path[this.path.length - 1] = frame.key;
+    } else {
+      setOwnProperty(frame.value, frame.key!, value);
+    }
+
+    frame.count++;
+    return frame.length !== null && frame.count === frame.length * 2;
+  }
+
+  /**
+   * Pop the current frame and return its value.
+   */
+  protected endFrame() {
+    const frame = this.frames.pop()!;
+
+    switch (frame.major) {
+      case MAJOR_ARRAY:
+      case MAJOR_MAP:
+        this.depth--;
+        this.path.pop();
+        return frame.value;
+      case MAJOR_BYTES:
+        return Buffer.concat(frame.chunks!);
+      case MAJOR_TEXT:
+        return frame.chunks!.join('');
+    }
+
+    const tag = frame.tag!;
+    const decode = this.tags[tag];
+
+    if (!decode || tag === SELF_DESCRIBED_TAG) {
+      return frame.value;
+    }
+
+    try {
+      return decode(frame.value, tag);
+    } catch (err: any) {
+      if (err.status) throw err;
+      throw this.createSyntaxError(`Invalid CBOR tag ${tag}: ${err.message}`, frame.start);
+    }
+  }
+
+  protected readBytes(length: number): Buffer {
+    this.checkLength(length);
+    this.pos += length;
+    return Buffer.from(this.buf.subarray(this.pos - length, this.pos));
+  }
+
+  protected readText(length: number, start: number) {
+    this.checkLength(length);
+    this.pos += length;
+
+    try {
+      return this.textDecoder.decode(this.buf.subarray(this.pos - length, this.pos));
+    } catch {
+      throw this.createSyntaxError('Invalid UTF-8 in CBOR text string', start);
+    }
+  }
+
+  protected checkCount(isMap: boolean, count: number) {
+    const { maxKeys, maxArrayLength } = this.options;
+
+    if (isMap && maxKeys !== undefined && count > maxKeys) {
+      throw createError(413, 'too many keys in CBOR map', {
+        limit: maxKeys,
+        path: formatPath(this.path),
+        type: 'entity.keys.exceeded',
+      });
+    }
+
+    if (!isMap && maxArrayLength !== undefined && count > maxArrayLength) {
+      throw createError(413, 'too many items in CBOR array', {
+        limit: maxArrayLength,
+        path: formatPath(this.path),
+        type: 'entity.array.length.exceeded',
+      });
+    }
+  }
+
+  /**
+   * Check the length of a string, or of a chunk of an indefinite-length string.
+   */
+  protected checkLength(length: number) {
+    const maxStringLength = this.options.maxStringLength;
+    const frame = this.frames[this.frames.length - 1];
+    const isChunk = frame && (frame.major === MAJOR_BYTES || frame.major === MAJOR_TEXT);
+    const size = isChunk ? frame.size! + length : length;
+
+    if (maxStringLength !== undefined && size > maxStringLength) {
+      throw createError(413, 'CBOR string too long', {
+        limit: maxStringLength,
+        path: formatPath(this.path),
+        type: 'entity.string.length.exceeded',
+      });
+    }
+
+    this.need(length);
+
+    if (isChunk) {
+      frame.size = size;
+    }
+  }
+
+  protected readUInt(size: number) {
+    this.need(size);
+    this.pos += size;
+    return this.buf.readUIntBE(this.pos - size, size);
+  }
+
+  protected need(size: number) {
+    if (this.pos + size > this.buf.length) {
+      throw this.createSyntaxError('Unexpected end of CBOR input', this.buf.length);
+    }
+  }
+
+  protected toKey(key: any): string {
+    if (typeof key == 'string') return key;
+    if (typeof key == 'number' || typeof key == 'bigint') return String(key);
+
+    throw this.createSyntaxError('CBOR map key must be a string or a number', this.pos);
+  }
+
+  protected createSyntaxError(message: string, position: number) {
+    return createError(400, `${message} at position ${position}`, {
+      position,
+      type: 'entity.parse.failed',
+    });
+  }
+}
+
+/**
+ * Returned by `readValue()` for the beginning of an array, a map, a tag
+ * or an indefinite-length string.
+ */
+const FRAME = Symbol('frame');
+
+/**
+ * Returned by `readValue()` for the "break" stop code.
+ */
+const BREAK = Symbol('break');
+
+/**
+ * Decode a half-precision float.
+ */
+function decodeHalf(half: number) {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  let value: number;
+
+  if (exponent === 0) {
+    value = mantissa * 2 ** -24;
+  } else if (exponent !== 0x1f) {
+    value = (mantissa + 0x400) * 2 ** (exponent - 25);
+  } else {
+    value = mantissa ? NaN : Infinity;
+  }
+
+  return half & 0x8000 ? -value : value;
+}
+
+/**
+ * Decode a standard date/time string (tag `0`).
+ */
+function decodeDateString(value: any) {
+  if (typeof value != 'string') {
+    throw new Error('expected a string');
+  }
+
+  const date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    throw new Error('invalid date');
+  }
+
+  return date;
+}
+
+/**
+ * Decode an epoch-based date/time (tag `1`).
+ */
+function decodeEpochDate(value: any) {
+  if (typeof value != 'number') {
+    throw new Error('expected a number');
+  }
+
+  return new Date(value * 1000);
+}
+
+/**
+ * Decode an unsigned (tag `2`) or negative (tag `3`) bignum.
+ */
+function decodeBignum(value: any, tag: number) {
+  if (!Buffer.isBuffer(value)) {
+    throw new Error('expected a byte string');
+  }
+
+  const num = value.length ? BigInt('0x' + value.toString('hex')) : 0n;
+  return tag === 2 ? num : -1n - num;
+}
@@ -4,13 +4,50 @@ export { getJsonParser } from './parsers/json.js';
 export { getRawParser } from './parsers/raw.js';
 export { getTextParser } from './parsers/text.js';
 export { getUrlencodedParser } from './parsers/urlencoded.js';
+export { getMultipartParser } from './parsers/multipart.js';
+export { getJsonStreamParser } from './parsers/json-stream.js';
+export { getNdjsonParser } from './parsers/ndjson.js';
+export { getMsgpackParser } from './parsers/msgpack.js';
+export { getCborParser } from './parsers/cbor.js';
+export { getXmlParser } from './parsers/xml.js';
+export { MemoryStorage, DiskStorage } from './multipart-storage.js';
+export { fromWeb, getWebParser } from './web.js';
+export { getExpressMiddleware, getKoaMiddleware, getFastifyParser, getHttpHandler } from './adapters.js';
 export {
   BaseOptions,
   JsonOptions,
+  JsonStreamOptions,
+  PrototypeAction,
+  DuplicateKeysAction,
+  JsonNumbersOption,
+  EmptyBodyAction,
+  NdjsonOptions,
+  MsgpackOptions,
+  MsgpackExtensionFn,
+  CborOptions,
+  CborTagFn,
+  XmlOptions,
+  XmlElement,
+  XmlText,
+  XmlNode,
   RawOptions,
   TextOptions,
   UrlencodedOptions,
+  UrlencodedQsOptions,
+  MultipartOptions,
+  MultipartFile,
+  MultipartBody,
+  StorageEngine,
+  DiskStorageOptions,
   BodyParser,
   BodyParserWithoutCheck,
+  WebBodyParser,
+  WebRequest,
 } from './types.js';
-export { BodyParserGroup, BodyParserOptions } from './body-parser-group.js';
+export {
+  BodyParserGroup,
+  BodyParserOptions,
+  BodyParserResult,
+  BuiltInBodies,
+  RegisterOptions,
+} from './body-parser-group.js';
@@ -0,0 +1,146 @@
+import { formatPath, JsonPath, JsonTokenizer } from './json-tokenizer.js';
+import type { JsonNumbersOption, ReviverFn } from './types.js';
+
+/**
+ * RegExp to match a JSON text that may have a number that can't be represented exactly
+ * by a `number`: one with 16 or more digits, or with an exponent.
+ */
+const LOSSY_NUMBER_REGEXP = /[\d.]{16}|\d[eE]/;
+
+const INTEGER_REGEXP = /^-?\d+$/;
+
+/**
+ * Whether the reviver of `JSON.parse()` receives the source text of primitive values
+ * (the `context.source` argument).
+ */
+const HAS_REVIVER_SOURCE = (() => {
+  let source: string | undefined;
+  JSON.parse('1', (key: string, value: any, context?: { source?: string }) => {
+    source = context?.source;
+    return value;
+  });
+  return source === '1';
+})();
+
+type NumberConverter = (source: string, value: number) => any;
+
+/**
+ * Parse a JSON text like `JSON.parse()`, but with the numbers converted according to the
+ * `numbers` option, from their source text. The source text is taken from the `context`
+ * argument of the reviver where the runtime supports it, and from a scan of the text otherwise.
+ */
+export function parseJsonNumbers(text: string, numbers: Exclude<JsonNumbersOption, 'number'>, reviver?: ReviverFn) {
+  if (typeof numbers != 'function' && !LOSSY_NUMBER_REGEXP.test(text)) {
+    return JSON.parse(text, reviver);
+  }
+
+  const convert = getNumberConverter(numbers);
+
+  if (HAS_REVIVER_SOURCE) {
+    return JSON.parse(text, function (this: any, key: string, value: any, context?: { source?: string }) {
+      if (typeof value == 'number' && context?.source !== undefined) {
+        value = convert(context.source, value);
+      }
+
+      return reviver ? (reviver as any).call(this, key, value, context) : value;
+    });
+  }
+
+  const value = JSON.parse(text);
+  const sources = new Map<string, string>();
+  const tokenizer = new JsonTokenizer({}, { onNumber: (path, source) => void sources.set(formatPath(path), source) });
+  tokenizer.write(text);
+  tokenizer.end();
+
+  const holder = { '': value };
+  convertNumbers(holder, sources, convert);
+
+  return reviver ? internalize(holder, '', reviver) : holder[''];
+}
+
+function getNumberConverter(numbers: Exclude<JsonNumbersOption, 'number'>): NumberConverter {
+  if (typeof numbers == 'function') {
+    return (source) => numbers(source);
+  }
+
+  return (source, value) => {
+    if (INTEGER_REGEXP.test(source)) {
+      if (Number.isSafeInteger(value)) {
+        return value;
+      }
+
+      return numbers === 'bigint' ? BigInt(source) : source;
+    }
+
+    return isExact(source, value) ? value : source;
+  };
+}
+
+/**
+ * Whether a number has the same significant digits as its source text.
+ */
+function isExact(source: string, value: number) {
+  return isFinite(value) && significantDigits(source) === significantDigits(value.toExponential());
+}
+
+function significantDigits(str: string) {
+  const mantissa = str.replace(/^-/, '').split(/[eE]/)[0].replace('.', '');
+  return mantissa.replace(/^0+/, '').replace(/0+$/, '');
+}
+
+/**
+ * Replace the numbers of a parsed value by their converted source text, found by their path.
+ */
+function convertNumbers(holder: { '': any }, sources: Map<string, string>, convert: NumberConverter) {
+  const stack: [any, string, JsonPath][] = [[holder, '', []]];
+
+  while (stack.length) {
+    const [obj, key, path] = stack.pop()!;
+    const value = obj[key];
+
+    if (typeof value == 'number') {
+      const source = sources.get(formatPath(path));
+
+      if (source !== undefined) {
+        Object.defineProperty(obj, key, {
+          value: convert(source, value),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    } else if (value && typeof value == 'object') {
+      const isArray = Array.isArray(value);
+
+      for (const childKey of Object.keys(value)) {
+        stack.push([value, childKey, [...path, isArray ? Number(childKey) : childKey]]);
+      }
+    }
+  }
+}
+
+/**
+ * Apply a reviver to a parsed value the way `JSON.parse()` does.
+ */
+function internalize(holder: any, key: string, reviver: ReviverFn): any {
+  const value = holder[key];
+
+  if (value && typeof value == 'object') {
+    for (const childKey of Object.keys(value)) {
+      const revived = internalize(value, childKey, reviver);
+
+      if (revived === undefined) {
+        delete value[childKey];
+      } else {
+        Object.defineProperty(value, childKey, {
+          value: revived,
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    }
+  }
+
+  return reviver.call(holder, key, value);
+}
@@ -0,0 +1,117 @@
+import { JsonPath, JsonTokenizer } from './json-tokenizer.js';
+import type { JsonLimitOptions, ReviverFn } from './types.js';
+
+/**
+ * RegExp to match one segment of a path: `.name`, `.*`, `[*]`, `[0]`, `['name']` or `["name"]`.
+ */
+const PATH_SEGMENT_REGEXP =
+  /^(?:\.([A-Za-z_$][\w$]*)|\.\*|\[\*\]|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\])/;
+
+/**
+ * The segments of a path selector, where `null` matches any key or index.
+ */
+export type JsonSelector = (string | number | null)[];
+
+export interface JsonSelectStreamOptions extends JsonLimitOptions {
+  /**
+   * The values that match the selector are passed to `onValue`.
+   */
+  selector: JsonSelector;
+  strict: boolean;
+  /**
+   * The maximum size in bytes of UTF-8 of the text of one selected value.
+   */
+  recordLimit: number;
+  reviver?: ReviverFn;
+}
+
+/**
+ * Parse a path selector like `$.items[*]`. Returns `undefined` if the path is invalid.
+ */
+export function parseJsonSelector(path: string): JsonSelector | undefined {
+  if (path[0] !== '$') {
+    return undefined;
+  }
+
+  const selector: JsonSelector = [];
+  let rest = path.slice(1);
+
+  while (rest) {
+    const match = PATH_SEGMENT_REGEXP.exec(rest);
+
+    if (!match) {
+      return undefined;
+    }
+
+    const [segment, name, index, singleQuoted, doubleQuoted] = match;
+
+    if (name !== undefined) {
+      selector.push(name);
+    } else if (index !== undefined) {
+      selector.push(Number(index));
+    } else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      selector.push((singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'));
+    } else {
+      selector.push(null);
+    }
+
+    rest = rest.slice(segment.length);
+  }
+
+  return selector;
+}
+
+/**
+ * Incremental parser for a JSON document that passes the values matching a path selector
+ * to `onValue` as soon as they have been read. Only the text of the current selected value
+ * is held in memory; the rest of the document is validated and skipped.
+ *
+ * An empty document has no values. Errors are thrown from `write()` and `end()`.
+ */
+export class JsonSelectStream {
+  /**
+   * The number of selected values.
+   */
+  values = 0;
+
+  protected tokenizer: JsonTokenizer;
+
+  constructor(
+    protected options: JsonSelectStreamOptions,
+    protected onValue: (value: any) => void,
+  ) {
+    this.tokenizer = new JsonTokenizer(
+      { ...options, captureLimit: options.recordLimit },
+      {
+        onValueStart: (path) => this.matches(path),
+        onValueEnd: (path, text) => {
+          if (text !== undefined) {
+            this.values++;
+            this.onValue(JSON.parse(text, options.reviver));
+          }
+        },
+      },
+    );
+  }
+
+  write(str: string) {
+    this.tokenizer.write(str);
+  }
+
+  end() {
+    // special-case empty json body, as it's a common client-side mistake
+    if (this.tokenizer.position === 0) return;
+
+    this.tokenizer.end();
+  }
+
+  protected matches(path: JsonPath) {
+    const selector = this.options.selector;
+
+    if (path.length !== selector.length) {
+      return false;
+    }
+
+    return selector.every((segment, i) => segment === null || segment === path[i]);
+  }
+}
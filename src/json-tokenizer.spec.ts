@@ -0,0 +1,134 @@
+import assert from 'node:assert';
+
+import { formatPath, JsonPath, JsonTokenizer } from './json-tokenizer.js';
+
+const VALID = [
+  '{}',
+  '[]',
+  ' {"a" : [1, -2.5e+3, 0, true, false, null, "x\\"\\u00e9\\n"], "b": {}} ',
+  '[[[]], [{}], ""]',
+  '"text"',
+  '-0.1E2',
+  'null',
+];
+
+const INVALID = [
+  '{',
+  '[1,]',
+  '{"a":1,}',
+  '{"a" 1}',
+  '[01]',
+  '[1.]',
+  '[tru]',
+  '["\\x"]',
+  '["\\u12g4"]',
+  '["\t"]',
+  '{} {}',
+  '[1}',
+  '',
+];
+
+describe('JsonTokenizer', function () {
+  it('should accept what JSON.parse accepts', function () {
+    for (const text of VALID) {
+      assert.doesNotThrow(() => tokenize(text), text);
+      assert.doesNotThrow(() => tokenize(text, 1), text);
+    }
+  });
+
+  it('should reject what JSON.parse rejects', function () {
+    for (const text of INVALID) {
+      assert.throws(() => JSON.parse(text), text);
+      assert.throws(() => tokenize(text), text);
+      assert.throws(() => tokenize(text, 1), text);
+    }
+  });
+
+  it('should reject a primitive when strict', function () {
+    assert.throws(
+      () => tokenize('1', undefined, { strict: true }),
+      /Unexpected token '1' in JSON at position 0 \(line 1 column 1\)/,
+    );
+  });
+
+  it('should report the position of an error', function () {
+    assert.throws(
+      () => tokenize('{\n  "a": [1,\n    ]\n}', 3),
+      (err: any) => {
+        assert.strictEqual(err.status, 400);
+        assert.strictEqual(err.type, 'entity.parse.failed');
+        assert.strictEqual(err.position, 17);
+        assert.strictEqual(err.line, 3);
+        assert.strictEqual(err.column, 5);
+        return true;
+      },
+    );
+  });
+
+  it('should report the path of every value', function () {
+    const paths: string[] = [];
+    const tokenizer = new JsonTokenizer({}, { onValueStart: (path) => void paths.push(formatPath(path)) });
+    tokenizer.write('{"a":[1,{"b c":2}],"d":null}');
+    tokenizer.end();
+
+    assert.strictEqual(paths.join(), '$,$.a,$.a[0],$.a[1],$.a[1]["b c"],$.d');
+  });
+
+  it('should report the keys with their position', function () {
+    const keys: string[] = [];
+    const tokenizer = new JsonTokenizer(
+      {},
+      { onKey: (path, position) => void keys.push(`${formatPath(path)}@${position}`) },
+    );
+    tokenizer.write('{"a": {"\\u0062":1}, "c":2}');
+    tokenizer.end();
+
+    assert.strictEqual(keys.join(), '$.a@1,$.a.b@7,$.c@20');
+  });
+
+  it('should capture the text of values across chunks', function () {
+    const texts: string[] = [];
+    const tokenizer = new JsonTokenizer(
+      {},
+      {
+        onValueStart: (path) => path.length == 1,
+        onValueEnd: (path, text) => void (text !== undefined && texts.push(text)),
+      },
+    );
+
+    for (const chunk of ['[12', '3, {"a":', ' [1]} ,"x"', ', true]']) {
+      tokenizer.write(chunk);
+    }
+    tokenizer.end();
+
+    assert.strictEqual(JSON.stringify(texts), JSON.stringify(['123', '{"a": [1]}', '"x"', 'true']));
+  });
+
+  it('should limit the depth', function () {
+    assert.doesNotThrow(() => tokenize('[[1]]', undefined, { maxDepth: 2 }));
+    assert.throws(
+      () => tokenize('[{"a":[1]}]', undefined, { maxDepth: 2 }),
+      (err: any) => {
+        assert.strictEqual(err.status, 413);
+        assert.strictEqual(err.type, 'entity.depth.exceeded');
+        assert.strictEqual(err.path, '$[0].a');
+        return true;
+      },
+    );
+  });
+});
+
+/**
+ * Tokenize a text in chunks of `size` characters.
+ */
+function tokenize(text: string, size = text.length, options = {}) {
+  const paths: JsonPath[] = [];
+  const tokenizer = new JsonTokenizer(options, { onValueStart: (path) => void paths.push([...path]) });
+
+  for (let i = 0; i < text.length; i += size) {
+    tokenizer.write(text.slice(i, i + size));
+  }
+
+  tokenizer.end();
+  return paths;
+}
@@ -0,0 +1,477 @@
+import createError from 'http-errors';
+
+import type { JsonLimitOptions } from './types.js';
+
+/**
+ * RegExp to match a number, as defined in RFC 8259 sec 6.
+ */
+const NUMBER_REGEXP = /^-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?$/;
+
+/**
+ * The characters that can follow a backslash in a string, except for `u`.
+ */
+const ESCAPE_CHARS = '"\\/bfnrt';
+
+const LITERALS: Record<string, string> = { t: 'true', f: 'false', n: 'null' };
+
+export type JsonPath = (string | number)[];
+
+export interface JsonTokenizerOptions extends JsonLimitOptions {
+  /**
+   * When `true`, the top-level value must be an object or an array.
+   */
+  strict?: boolean;
+  /**
+   * The maximum size in bytes of UTF-8 of the text of a captured value.
+   */
+  captureLimit?: number;
+}
+
+export interface JsonTokenizerHandlers {
+  /**
+   * Called when a value begins, with its path. If it returns `true`, the text
+   * of the value is captured and passed to `onValueEnd()`.
+   */
+  onValueStart?: (path: JsonPath) => boolean | void;
+  /**
+   * Called when a value has ended, with the text of the value if it was captured,
+   * and the position after the end of the value.
+   */
+  onValueEnd?: (path: JsonPath, text: string | undefined, end: number) => void;
+  /**
+   * Called when the key of a member of an object has been read, with the path of the member
+   * and the position of the opening quote of the key.
+   */
+  onKey?: (path: JsonPath, position: number) => void;
+  /**
+   * Called when a number has been read, with its path and its text.
+   */
+  onNumber?: (path: JsonPath, text: string) => void;
+}
+
+type TokenizerState = 'value' | 'valueOrEnd' | 'keyOrEnd' | 'key' | 'colon' | 'commaOrEnd' | 'end';
+type TokenType = 'string' | 'key' | 'number' | 'literal';
+
+/**
+ * Incremental validating tokenizer for JSON texts (RFC 8259). The text is passed to
+ * the `write()` method chunk by chunk, and the beginning and the end of every value are
+ * reported to the handlers together with the path of the value, so that a document never
+ * has to be held in memory as a whole.
+ *
+ * Syntax errors are thrown from `write()` and `end()` as 400 errors with the
+ * `'entity.parse.failed'` type, and the `position`, `line` and `column` of the error.
+ */
+export class JsonTokenizer {
+  /**
+   * The number of characters written.
+   */
+  position = 0;
+  /**
+   * The path of the current value. Array items are represented by their index.
+   */
+  path: JsonPath = [];
+
+  protected state: TokenizerState = 'value';
+  protected containers: ('{' | '[')[] = [];
+  /**
+   * The number of keys of the objects in `containers`, and `0` for arrays.
+   */
+  protected keyCounts: number[] = [];
+  protected line = 1;
+  protected lineStart = 0;
+
+  protected token: TokenType | null = null;
+  protected tokenStart = 0;
+  protected tokenPosition = 0;
+  protected tokenChunks: string[] = [];
+  /**
+   * The state of an escape sequence in a string: the number of characters of
+   * the sequence that are left, or `-1` after a backslash.
+   */
+  protected escape = 0;
+  protected stringLength = 0;
+  protected maxStringLength: number;
+  protected literal = '';
+  protected literalIndex = 0;
+
+  protected capturing = false;
+  /**
+   * The number of containers around the captured value.
+   */
+  protected captureDepth = 0;
+  protected captureStart = 0;
+  protected captureChunks: string[] = [];
+  protected captureSize = 0;
+
+  constructor(
+    protected options: JsonTokenizerOptions = {},
+    protected handlers: JsonTokenizerHandlers = {},
+  ) {
+    this.maxStringLength = options.maxStringLength !== undefined ? options.maxStringLength : Infinity;
+  }
+
+  write(str: string) {
+    const length = str.length;
+    let i = 0;
+
+    this.tokenStart = 0;
+    this.captureStart = 0;
+
+    while (i < length) {
+      if (this.token === 'string' || this.token === 'key') {
+        i = this.readString(str, i);
+        continue;
+      } else if (this.token === 'number') {
+        i = this.readNumber(str, i);
+        continue;
+      } else if (this.token === 'literal') {
+        i = this.readLiteral(str, i);
+        continue;
+      }
+
+      const c = str.charCodeAt(i);
+
+      if (c === 0x20 || c === 0x09 || c === 0x0d) {
+        i++;
+      } else if (c === 0x0a) {
+        this.line++;
+        this.lineStart = this.position + i + 1;
+        i++;
+      } else {
+        this.readStructure(str, i);
+        i++;
+      }
+    }
+
+    // only the text of keys and numbers is needed
+    if (this.token === 'key' || this.token === 'number') {
+      this.tokenChunks.push(str.slice(this.tokenStart));
+    }
+
+    if (this.capturing) {
+      this.appendCapture(str.slice(this.captureStart));
+    }
+
+    this.position += length;
+  }
+
+  end() {
+    if (this.token === 'number') {
+      this.endNumber('', 0);
+    } else if (this.token === 'literal') {
+      throw this.createSyntaxError('Unexpected end of JSON input', this.position);
+    }
+
+    if (this.token || this.state !== 'end') {
+      throw this.createSyntaxError('Unexpected end of JSON input', this.position);
+    }
+  }
+
+  protected readStructure(str: string, i: number) {
+    const c = str[i];
+
+    switch (this.state) {
+      case 'value':
+        return this.startValue(str, i);
+      case 'valueOrEnd':
+        return c === ']' ? this.endContainer(str, i) : this.startValue(str, i);
+      case 'keyOrEnd':
+        if (c === '}') return this.endContainer(str, i);
+      // falls through
+      case 'key':
+        if (c !== '"') break;
+        this.countKey();
+        this.startToken('key', i + 1);
+        return;
+      case 'colon':
+        if (c !== ':') break;
+        this.state = 'value';
+        return;
+      case 'commaOrEnd':
+        if (c === ',') {
+          this.state = this.containers[this.containers.length - 1] === '{' ? 'key' : 'value';
+          return;
+        } else if (c === '}' || c === ']') {
+          return this.endContainer(str, i);
+        }
+        break;
+    }
+
+    throw this.createUnexpectedTokenError(c, this.position + i);
+  }
+
+  protected startValue(str: string, i: number) {
+    const c = str[i];
+    const depth = this.containers.length;
+
+    if (depth === 0 && this.options.strict && c !== '{' && c !== '[') {
+      throw this.createUnexpectedTokenError(c, this.position + i);
+    }
+
+    if (this.containers[depth - 1] === '[') {
+      this.countItem();
+    }
+
+    if (this.handlers.onValueStart?.(this.path) === true && !this.capturing) {
+      this.capturing = true;
+      this.captureDepth = depth;
+      this.captureStart = i;
+      this.captureChunks = [];
+      this.captureSize = 0;
+    }
+
+    if (c === '{' || c === '[') {
+      const maxDepth = this.options.maxDepth;
+
+      if (maxDepth !== undefined && depth + 1 > maxDepth) {
+        throw createError(413, 'JSON depth limit exceeded', {
+          limit: maxDepth,
+          path: formatPath(this.path),
+          type: 'entity.depth.exceeded',
+        });
+      }
+
+      this.containers.push(c);
+      this.keyCounts.push(0);
+      this.path.push(c === '{' ? '' : -1);
+      this.state = c === '{' ? 'keyOrEnd' : 'valueOrEnd';
+    } else if (c === '"') {
+      this.startToken('string', i + 1);
+    } else if (c === '-' || (c >= '0' && c <= '9')) {
+      this.startToken('number', i);
+    } else if (LITERALS[c]) {
+      this.startToken('literal', i + 1);
+      this.literal = LITERALS[c];
+      this.literalIndex = 1;
+    } else {
+      throw this.createUnexpectedTokenError(c, this.position + i);
+    }
+  }
+
+  protected startToken(token: TokenType, start: number) {
+    this.token = token;
+    this.tokenStart = start;
+    this.tokenPosition = this.position + start;
+    this.tokenChunks = [];
+    this.escape = 0;
+    this.stringLength = 0;
+  }
+
+  protected countKey() {
+    const depth = this.containers.length;
+    const maxKeys = this.options.maxKeys;
+
+    if (maxKeys !== undefined && ++this.keyCounts[depth - 1] > maxKeys) {
+      throw createError(413, 'too many keys in JSON object', {
+        limit: maxKeys,
+        path: formatPath(this.path.slice(0, -1)),
+        type: 'entity.keys.exceeded',
+      });
+    }
+  }
+
+  protected countItem() {
+    const depth = this.containers.length;
+    const maxArrayLength = this.options.maxArrayLength;
+    const index = ++(this.path[depth - 1] as number);
+
+    if (maxArrayLength !== undefined && index + 1 > maxArrayLength) {
+      throw createError(413, 'too many items in JSON array', {
+        limit: maxArrayLength,
+        path: formatPath(this.path.slice(0, -1)),
+        type: 'entity.array.length.exceeded',
+      });
+    }
+  }
+
+  protected readString(str: string, i: number) {
+    const length = str.length;
+
+    for (; i < length; i++) {
+      const c = str.charCodeAt(i);
+
+      if (this.escape === -1) {
+        // after a backslash
+        if (c === 0x75) {
+          this.escape = 4;
+        } else if (ESCAPE_CHARS.includes(str[i])) {
+          this.escape = 0;
+        } else {
+          throw this.createSyntaxError('Bad escaped character in JSON', this.position + i);
+        }
+      } else if (this.escape > 0) {
+        // hex digits of a unicode escape
+        if (!((c >= 0x30 && c <= 0x39) || (c >= 0x41 && c <= 0x46) || (c >= 0x61 && c <= 0x66))) {
+          throw this.createSyntaxError('Bad Unicode escape in JSON', this.position + i);
+        }
+        this.escape--;
+      } else if (c === 0x22) {
+        this.endString(str.slice(this.tokenStart, i), str, i);
+        return i + 1;
+      } else if (c < 0x20) {
+        throw this.createSyntaxError('Bad control character in string literal in JSON', this.position + i);
+      } else {
+        // an escape sequence is one character
+        if (c === 0x5c) {
+          this.escape = -1;
+        }
+
+        if (++this.stringLength > this.maxStringLength) {
+          throw this.createStringLengthError();
+        }
+      }
+    }
+
+    return length;
+  }
+
+  protected endString(tail: string, str: string, i: number) {
+    const token = this.token;
+    this.token = null;
+
+    if (token === 'key') {
+      const raw = this.tokenChunks.length ? this.tokenChunks.join('') + tail : tail;
+      this.path[this.path.length - 1] = raw.includes('\\') ? JSON.parse(`"${raw}"`) : raw;
+      this.state = 'colon';
+      this.handlers.onKey?.(this.path, this.tokenPosition - 1);
+    } else {
+      this.endValue(str, i + 1);
+    }
+  }
+
+  protected createStringLengthError() {
+    const path = this.token === 'key' ? this.path.slice(0, -1) : this.path;
+
+    return createError(413, 'JSON string too long', {
+      limit: this.maxStringLength,
+      path: formatPath(path),
+      type: 'entity.string.length.exceeded',
+    });
+  }
+
+  protected readNumber(str: string, i: number) {
+    const length = str.length;
+
+    for (; i < length; i++) {
+      const c = str.charCodeAt(i);
+
+      // digits, '+', '-', '.', 'e' and 'E'
+      if (!((c >= 0x30 && c <= 0x39) || c === 0x2b || c === 0x2d || c === 0x2e || c === 0x65 || c === 0x45)) {
+        this.endNumber(str, i);
+        return i;
+      }
+    }
+
+    return length;
+  }
+
+  protected endNumber(str: string, i: number) {
+    const tail = str.slice(this.tokenStart, i);
+    const text = this.tokenChunks.length ? this.tokenChunks.join('') + tail : tail;
+    this.token = null;
+
+    if (!NUMBER_REGEXP.test(text)) {
+      throw this.createSyntaxError(`Unexpected number "${text}" in JSON`, this.tokenPosition);
+    }
+
+    this.handlers.onNumber?.(this.path, text);
+
+    this.endValue(str, i);
+  }
+
+  protected readLiteral(str: string, i: number) {
+    const length = str.length;
+
+    for (; i < length && this.literalIndex < this.literal.length; i++, this.literalIndex++) {
+      if (str[i] !== this.literal[this.literalIndex]) {
+        throw this.createUnexpectedTokenError(str[i], this.position + i);
+      }
+    }
+
+    if (this.literalIndex === this.literal.length) {
+      this.token = null;
+      this.endValue(str, i);
+    }
+
+    return i;
+  }
+
+  protected endContainer(str: string, i: number) {
+    const c = str[i];
+    const container = this.containers.pop();
+    this.keyCounts.pop();
+
+    if ((c === '}' && container !== '{') || (c === ']' && container !== '[')) {
+      throw this.createUnexpectedTokenError(c, this.position + i);
+    }
+
+    this.path.pop();
+    this.endValue(str, i + 1);
+  }
+
+  /**
+   * @param end The index in `str` after the end of the value.
+   */
+  protected endValue(str: string, end: number) {
+    const depth = this.containers.length;
+    let text: string | undefined;
+
+    this.state = depth ? 'commaOrEnd' : 'end';
+
+    if (this.capturing && depth === this.captureDepth) {
+      this.capturing = false;
+      const tail = str.slice(this.captureStart, end);
+      this.appendCapture(tail);
+      text = this.captureChunks.length == 1 ? this.captureChunks[0] : this.captureChunks.join('');
+      this.captureChunks = [];
+    }
+
+    this.handlers.onValueEnd?.(this.path, text, this.position + end);
+  }
+
+  protected appendCapture(str: string) {
+    if (!str) return;
+
+    const captureLimit = this.options.captureLimit;
+    this.captureSize += Buffer.byteLength(str);
+
+    if (captureLimit !== undefined && this.captureSize > captureLimit) {
+      throw createError(413, `record too large (${formatPath(this.path)})`, {
+        limit: captureLimit,
+        path: formatPath(this.path),
+        type: 'record.too.large',
+      });
+    }
+
+    this.captureChunks.push(str);
+  }
+
+  protected createUnexpectedTokenError(token: string, position: number) {
+    return this.createSyntaxError(`Unexpected token '${token}' in JSON`, position);
+  }
+
+  protected createSyntaxError(message: string, position: number) {
+    const line = this.line;
+    const column = position - this.lineStart + 1;
+
+    return createError(400, `${message} at position ${position} (line ${line} column ${column})`, {
+      position,
+      line,
+      column,
+      type: 'entity.parse.failed',
+    });
+  }
+}
+
+/**
+ * Format a path like `$.items[0]`.
+ */
+export function formatPath(path: JsonPath) {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment == 'number') {
+      return `${result}[${segment}]`;
+    }
+
+    return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${result}.${segment}` : `${result}[${JSON.stringify(segment)}]`;
+  }, '$');
+}
@@ -0,0 +1,346 @@
+import createError from 'http-errors';
+
+import { formatPath, JsonPath } from './json-tokenizer.js';
+import type { JsonLimitOptions, MsgpackExtensionFn } from './types.js';
+import { setOwnProperty, toSafeNumber } from './utils.js';
+
+/**
+ * The extension type of timestamps.
+ */
+const TIMESTAMP_TYPE = -1;
+
+export interface MsgpackDecoderOptions extends JsonLimitOptions {
+  /**
+   * When `true`, the top-level value must be a map or an array.
+   */
+  strict?: boolean;
+  extensions?: Record<number, MsgpackExtensionFn>;
+}
+
+/**
+ * A map or an array that is being decoded.
+ */
+interface Container {
+  value: any;
+  isMap: boolean;
+  length: number;
+  /**
+   * The number of decoded items, or of decoded keys and values of a map.
+   */
+  count: number;
+  key?: string;
+}
+
+/**
+ * Decoder of MessagePack data, as defined by the MessagePack specification. The data is decoded
+ * without recursion, so that deeply nested data can't overflow the stack, and the lengths
+ * of maps, arrays, strings and binary data are checked against the limits and the size
+ * of the data before anything is allocated for them.
+ *
+ * Maps are decoded to plain objects, with string or number keys. Integers that are not safe
+ * are decoded to a `bigint`, and binary data to a `Buffer`.
+ *
+ * Malformed data is reported with a 400 error with the `'entity.parse.failed'` type
+ * and the `position` of the error.
+ */
+export class MsgpackDecoder {
+  protected buf: Buffer = Buffer.alloc(0);
+  protected pos = 0;
+  protected containers: Container[] = [];
+  protected path: JsonPath = [];
+  protected extensions: Record<number, MsgpackExtensionFn>;
+
+  constructor(protected options: MsgpackDecoderOptions = {}) {
+    this.extensions = { [TIMESTAMP_TYPE]: decodeTimestamp, ...options.extensions };
+  }
+
+  decode(buf: Buffer) {
+    this.buf = buf;
+    this.pos = 0;
+    this.containers = [];
+    this.path = [];
+
+    if (this.options.strict && (!buf.length || !isContainer(buf[0]))) {
+      throw this.createSyntaxError('Unexpected MessagePack value', 0);
+    }
+
+    let value = this.readValue();
+
+    for (;;) {
+      if (value === CONTAINER) {
+        const container = this.containers[this.containers.length - 1];
+
+        if (container.length) {
+          this.path.push(container.isMap ? '' : 0);
+          value = this.readValue();
+          continue;
+        }
+
+        // an empty container is complete
+        this.containers.pop();
+        value = container.value;
+      }
+
+      const parent = this.containers[this.containers.length - 1];
+
+      if (!parent) {
+        break;
+      }
+
+      if (parent.isMap && parent.count % 2 === 0) {
+        parent.key = this.toKey(value);
+        this.path[this.path.length - 1] = parent.key;
+      } else if (parent.isMap) {
+        setOwnProperty(parent.value, parent.key!, value);
+      } else {
+        parent.value[parent.count] = value;
+      }
+
+      if (++parent.count < (parent.isMap ? parent.length * 2 : parent.length)) {
+        if (!parent.isMap) {
+          this.path[this.path.length - 1] = parent.count;
+        }
+
+        value = this.readValue();
+        continue;
+      }
+
+      // the container is complete, so it is a value of its parent
+      this.containers.pop();
+      this.path.pop();
+      value = parent.value;
+    }
+
+    if (this.pos < buf.length) {
+      throw this.createSyntaxError('Unexpected data after MessagePack value', this.pos);
+    }
+
+    return value;
+  }
+
+  /**
+   * Read a value. For a map or an array, an empty container is pushed to `containers`,
+   * and `CONTAINER` is returned.
+   */
+  protected readValue(): any {
+    const start = this.pos;
+    const b = this.readUInt(1);
+
+    if (b <= 0x7f) return b;
+    if (b >= 0xe0) return b - 0x100;
+    if (b <= 0x8f) return this.startContainer(true, b & 0x0f, start);
+    if (b <= 0x9f) return this.startContainer(false, b & 0x0f, start);
+    if (b <= 0xbf) return this.readString(b & 0x1f);
+
+    switch (b) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+      case 0xc5:
+      case 0xc6:
+        return this.readBinary(this.readUInt(1 << (b - 0xc4)));
+      case 0xc7:
+      case 0xc8:
+      case 0xc9:
+        return this.readExtension(this.readUInt(1 << (b - 0xc7)), start);
+      case 0xca:
+        this.need(4);
+        this.pos += 4;
+        return this.buf.readFloatBE(this.pos - 4);
+      case 0xcb:
+        this.need(8);
+        this.pos += 8;
+        return this.buf.readDoubleBE(this.pos - 8);
+      case 0xcc:
+      case 0xcd:
+      case 0xce:
+        return this.readUInt(1 << (b - 0xcc));
+      case 0xcf:
+        return toSafeNumber(this.readBigInt(false));
+      case 0xd0:
+      case 0xd1:
+      case 0xd2:
+        return this.readInt(1 << (b - 0xd0));
+      case 0xd3:
+        return toSafeNumber(this.readBigInt(true));
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return this.readExtension(1 << (b - 0xd4), start);
+      case 0xd9:
+      case 0xda:
+      case 0xdb:
+        return this.readString(this.readUInt(1 << (b - 0xd9)));
+      case 0xdc:
+      case 0xdd:
+        return this.startContainer(false, this.readUInt(b === 0xdc ? 2 : 4), start);
+      case 0xde:
+      case 0xdf:
+        return this.startContainer(true, this.readUInt(b === 0xde ? 2 : 4), start);
+    }
+
+    throw this.createSyntaxError(`Unexpected byte 0x${b.toString(16)} in MessagePack`, start);
+  }
+
+  protected startContainer(isMap: boolean, length: number, start: number) {
+    const depth = this.containers.length;
+    const { maxDepth, maxKeys, maxArrayLength } = this.options;
+    const parent = this.containers[depth - 1];
+
+    if (parent && parent.isMap && parent.count % 2 === 0) {
+      throw this.createSyntaxError('MessagePack map key must be a string or a number', start);
+    }
+
+    if (maxDepth !== undefined && depth + 1 > maxDepth) {
+      throw createError(413, 'MessagePack depth limit exceeded', {
+        limit: maxDepth,
+        path: formatPath(this.path),
+        type: 'entity.depth.exceeded',
+      });
+    }
+
+    if (isMap && maxKeys !== undefined && length > maxKeys) {
+      throw createError(413, 'too many keys in MessagePack map', {
+        limit: maxKeys,
+        path: formatPath(this.path),
+        type: 'entity.keys.exceeded',
+      });
+    }
+
+    if (!isMap && maxArrayLength !== undefined && length > maxArrayLength) {
+      throw createError(413, 'too many items in MessagePack array', {
+        limit: maxArrayLength,
+        path: formatPath(this.path),
+        type: 'entity.array.length.exceeded',
+      });
+    }
+
+    // every item takes at least one byte
+    this.need(isMap ? length * 2 : length);
+
+    this.containers.push({ value: isMap ? {} : new Array(length), isMap, length, count: 0 });
+    return CONTAINER;
+  }
+
+  protected readString(length: number) {
+    this.checkLength(length);
+    this.pos += length;
+    return this.buf.toString('utf-8', this.pos - length, this.pos);
+  }
+
+  protected readBinary(length: number) {
+    this.checkLength(length);
+    this.pos += length;
+    return Buffer.from(this.buf.subarray(this.pos - length, this.pos));
+  }
+
+  protected readExtension(length: number, start: number) {
+    const type = this.readInt(1);
+    const decode = this.extensions[type];
+
+    if (!decode) {
+      throw this.createSyntaxError(`Unknown MessagePack extension type ${type}`, start);
+    }
+
+    const data = this.readBinary(length);
+
+    try {
+      return decode(data, type);
+    } catch (err: any) {
+      if (err.status) throw err;
+      throw this.createSyntaxError(`Invalid MessagePack extension type ${type}: ${err.message}`, start);
+    }
+  }
+
+  protected checkLength(length: number) {
+    const maxStringLength = this.options.maxStringLength;
+
+    if (maxStringLength !== undefined && length > maxStringLength) {
+      throw createError(413, 'MessagePack string too long', {
+        limit: maxStringLength,
+        path: formatPath(this.path),
+        type: 'entity.string.length.exceeded',
+      });
+    }
+
+    this.need(length);
+  }
+
+  protected readUInt(size: number) {
+    this.need(size);
+    this.pos += size;
+    return this.buf.readUIntBE(this.pos - size, size);
+  }
+
+  protected readInt(size: number) {
+    this.need(size);
+    this.pos += size;
+    return this.buf.readIntBE(this.pos - size, size);
+  }
+
+  protected readBigInt(signed: boolean) {
+    this.need(8);
+    this.pos += 8;
+    return signed ? this.buf.readBigInt64BE(this.pos - 8) : this.buf.readBigUInt64BE(this.pos - 8);
+  }
+
+  protected need(size: number) {
+    if (this.pos + size > this.buf.length) {
+      throw this.createSyntaxError('Unexpected end of MessagePack input', this.buf.length);
+    }
+  }
+
+  protected toKey(key: any): string {
+    if (typeof key == 'string') return key;
+    if (typeof key == 'number' || typeof key == 'bigint') return String(key);
+
+    throw this.createSyntaxError('MessagePack map key must be a string or a number', this.pos);
+  }
+
+  protected createSyntaxError(message: string, position: number) {
+    return createError(400, `${message} at position ${position}`, {
+      position,
+      type: 'entity.parse.failed',
+    });
+  }
+}
+
+/**
+ * Returned by `readValue()` for the beginning of a map or an array.
+ */
+const CONTAINER = Symbol('container');
+
+function isContainer(b: number) {
+  return (b >= 0x80 && b <= 0x9f) || (b >= 0xdc && b <= 0xdf);
+}
+
+/**
+ * Decode the timestamp extension type: 32-bit seconds, 30-bit nanoseconds with 34-bit seconds,
+ * or 32-bit nanoseconds with 64-bit seconds.
+ */
+function decodeTimestamp(data: Buffer) {
+  let seconds: number;
+  let nanoseconds: number;
+
+  if (data.length === 4) {
+    seconds = data.readUInt32BE(0);
+    nanoseconds = 0;
+  } else if (data.length === 8) {
+    const high = data.readUInt32BE(0);
+    nanoseconds = high >>> 2;
+    seconds = (high & 0x3) * 0x100000000 + data.readUInt32BE(4);
+  } else if (data.length === 12) {
+    nanoseconds = data.readUInt32BE(0);
+    seconds = Number(data.readBigInt64BE(4));
+  } else {
+    throw new Error('timestamp must have 4, 8 or 12 bytes');
+  }
+
+  return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+}
@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+import type { DiskStorageOptions, MultipartFile, StorageEngine } from './types.js';
+
+/**
+ * A storage engine that keeps the content of a file in memory,
+ * in the `buffer` property of the file.
+ */
+export class MemoryStorage implements StorageEngine {
+  async handleFile(file: MultipartFile, stream: Readable) {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    return { buffer: Buffer.concat(chunks) };
+  }
+
+  async removeFile(file: MultipartFile) {
+    delete file.buffer;
+  }
+}
+
+/**
+ * A storage engine that saves files to a directory, the temporary directory
+ * of the operating system by default. The saved files are not removed after
+ * a successful parsing, this is up to you.
+ */
+export class DiskStorage implements StorageEngine {
+  protected directory: string;
+  protected getFilename: (file: MultipartFile) => string;
+
+  constructor(options: DiskStorageOptions = {}) {
+    this.directory = options.directory || tmpdir();
+    this.getFilename = options.filename || (() => randomUUID());
+  }
+
+  async handleFile(file: MultipartFile, stream: Readable) {
+    const filename = this.getFilename(file);
+    const path = join(this.directory, filename);
+    const writeStream = createWriteStream(path, { flags: 'wx' });
+    let existed = false;
+    writeStream.once('error', (err: any) => (existed = err.code == 'EEXIST'));
+
+    try {
+      await pipeline(stream, writeStream);
+    } catch (err) {
+      // the file can be created after the error, while the stream is closing
+      if (!writeStream.closed) {
+        await new Promise((resolve) => writeStream.once('close', resolve));
+      }
+
+      // remove a partially written file
+      if (!existed) {
+        await unlink(path).catch(() => {});
+      }
+      throw err;
+    }
+
+    return { destination: this.directory, filename, path };
+  }
+
+  async removeFile(file: MultipartFile) {
+    if (file.path) {
+      await unlink(file.path);
+      delete file.path;
+    }
+  }
+}
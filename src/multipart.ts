@@ -0,0 +1,309 @@
+import createError from 'http-errors';
+import iconv from 'iconv-lite';
+
+const CRLF = Buffer.from('\r\n');
+const HEADERS_END = Buffer.from('\r\n\r\n');
+const EMPTY = Buffer.alloc(0);
+
+/**
+ * RegExp to match a boundary parameter, as defined in RFC 2046 sec 5.1.1.
+ */
+const BOUNDARY_REGEXP = /^[0-9A-Za-z'()+_,\-./:=? ]{0,69}[0-9A-Za-z'()+_,\-./:=?]$/;
+
+/**
+ * RegExp to match the transport padding after a boundary.
+ */
+const TRANSPORT_PADDING_REGEXP = /^[\x20\x09]*$/;
+
+/**
+ * RegExp to match a `charset'lang'value` extended parameter value, as defined in RFC 8187.
+ */
+const EXT_VALUE_REGEXP = /^([A-Za-z0-9!#$%&+\-^_`{}~]+)'[A-Za-z0-9-]*'((?:%[0-9A-Fa-f]{2}|[A-Za-z0-9!#$&+.^_`|~-])*)$/;
+
+/**
+ * The maximum size of the headers of one part.
+ */
+const HEADER_SIZE_LIMIT = 16 * 1024;
+
+export type PartHeaders = Record<string, string>;
+
+export interface MultipartHandlers {
+  /**
+   * Called with the headers of a part, before its body.
+   */
+  onPartBegin: (headers: PartHeaders) => void;
+  /**
+   * Called with every chunk of the body of the current part.
+   */
+  onPartData: (chunk: Buffer) => void;
+  /**
+   * Called when the body of the current part has ended.
+   */
+  onPartEnd: () => void;
+}
+
+export interface ContentDisposition {
+  type: string;
+  parameters: Record<string, string>;
+}
+
+type MultipartState = 'preamble' | 'boundary' | 'headers' | 'body' | 'end';
+
+/**
+ * Incremental parser for `multipart/*` bodies (RFC 2046, RFC 7578). The body is passed
+ * to the `write()` method chunk by chunk, and parts are reported to the handlers as soon
+ * as they are found, so that a part never has to be held in memory as a whole.
+ *
+ * Errors are thrown from `write()` and `end()`.
+ */
+export class MultipartStream {
+  protected state: MultipartState = 'preamble';
+  protected delimiter: Buffer;
+  /**
+   * The preamble may be empty, so the body is treated as if it started with a line break
+   * to match the first delimiter.
+   */
+  protected buffer: Buffer = CRLF;
+
+  constructor(
+    boundary: string,
+    protected handlers: MultipartHandlers,
+  ) {
+    this.delimiter = Buffer.from('\r\n--' + boundary);
+  }
+
+  write(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.next()) {
+      // process the buffered data until more data is needed
+    }
+  }
+
+  end() {
+    if (this.state !== 'end') {
+      throw createError(400, 'unexpected end of multipart body', {
+        type: 'entity.parse.failed',
+      });
+    }
+  }
+
+  /**
+   * Performs one step of parsing and returns `false` when more data is needed.
+   */
+  protected next(): boolean {
+    const buffer = this.buffer;
+
+    switch (this.state) {
+      case 'preamble': {
+        const index = buffer.indexOf(this.delimiter);
+
+        if (index === -1) {
+          // keep what can be the beginning of the delimiter
+          this.buffer = buffer.subarray(Math.max(0, buffer.length - this.delimiter.length + 1));
+          return false;
+        }
+
+        this.buffer = buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+        return true;
+      }
+      case 'boundary': {
+        if (buffer.length < 2) {
+          return false;
+        }
+
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          // close delimiter, the rest is epilogue
+          this.buffer = EMPTY;
+          this.state = 'end';
+          return false;
+        }
+
+        const index = buffer.indexOf(CRLF);
+
+        if (index === -1 && buffer.length < HEADER_SIZE_LIMIT) {
+          return false;
+        } else if (index === -1 || !TRANSPORT_PADDING_REGEXP.test(buffer.toString('latin1', 0, index))) {
+          throw createError(400, 'malformed multipart boundary', {
+            type: 'entity.parse.failed',
+          });
+        }
+
+        this.buffer = buffer.subarray(index + CRLF.length);
+        this.state = 'headers';
+        return true;
+      }
+      case 'headers': {
+        let headers: PartHeaders;
+
+        if (buffer.length < CRLF.length) {
+          return false;
+        } else if (buffer[0] === 0x0d && buffer[1] === 0x0a) {
+          // part without headers
+          headers = {};
+          this.buffer = buffer.subarray(CRLF.length);
+        } else {
+          const index = buffer.indexOf(HEADERS_END);
+
+          if (index === -1 && buffer.length < HEADER_SIZE_LIMIT) {
+            return false;
+          } else if (index === -1 || index > HEADER_SIZE_LIMIT) {
+            throw createError(413, 'multipart headers too large', {
+              limit: HEADER_SIZE_LIMIT,
+              type: 'headers.too.large',
+            });
+          }
+
+          headers = parseHeaders(buffer.toString('utf-8', 0, index));
+          this.buffer = buffer.subarray(index + HEADERS_END.length);
+        }
+
+        this.state = 'body';
+        this.handlers.onPartBegin(headers);
+        return true;
+      }
+      case 'body': {
+        const index = buffer.indexOf(this.delimiter);
+
+        if (index === -1) {
+          // emit everything except what can be the beginning of the delimiter
+          const end = buffer.length - this.delimiter.length + 1;
+
+          if (end > 0) {
+            this.buffer = buffer.subarray(end);
+            this.handlers.onPartData(buffer.subarray(0, end));
+          }
+
+          return false;
+        }
+
+        this.buffer = buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+
+        if (index > 0) {
+          this.handlers.onPartData(buffer.subarray(0, index));
+        }
+
+        this.handlers.onPartEnd();
+        return true;
+      }
+      default:
+        // ignore the epilogue
+        this.buffer = EMPTY;
+        return false;
+    }
+  }
+}
+
+/**
+ * Check if a string is a valid multipart boundary.
+ */
+export function isValidBoundary(boundary: string) {
+  return BOUNDARY_REGEXP.test(boundary);
+}
+
+/**
+ * Parse the headers of a part. Header names are lower-cased.
+ */
+export function parseHeaders(str: string): PartHeaders {
+  const headers: PartHeaders = {};
+  let name = '';
+
+  for (const line of str.split('\r\n')) {
+    if ((line[0] === ' ' || line[0] === '\t') && name) {
+      // obsolete line folding
+      headers[name] += ' ' + line.trim();
+      continue;
+    }
+
+    const index = line.indexOf(':');
+
+    if (index < 1) {
+      throw createError(400, 'malformed multipart header', {
+        type: 'entity.parse.failed',
+      });
+    }
+
+    name = line.slice(0, index).trim().toLowerCase();
+    headers[name] = line.slice(index + 1).trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Parse a `Content-Disposition` header of a part. Parameter names are lower-cased,
+ * and extended parameters (like `filename*`) take precedence over regular ones.
+ */
+export function parseContentDisposition(str: string): ContentDisposition {
+  const parameters: Record<string, string> = {};
+  const extended: Record<string, string> = {};
+  let index = str.indexOf(';');
+  const type = (index === -1 ? str : str.slice(0, index)).trim().toLowerCase();
+
+  while (index !== -1 && index < str.length) {
+    const equal = str.indexOf('=', index + 1);
+
+    if (equal === -1) {
+      break;
+    }
+
+    const name = str
+      .slice(index + 1, equal)
+      .trim()
+      .toLowerCase();
+    let value = '';
+    let position = equal + 1;
+
+    while (str[position] === ' ' || str[position] === '\t') {
+      position++;
+    }
+
+    if (str[position] === '"') {
+      // quoted-string
+      for (position++; position < str.length && str[position] !== '"'; position++) {
+        if (str[position] === '\\' && (str[position + 1] === '"' || str[position + 1] === '\\')) {
+          position++;
+        }
+
+        value += str[position];
+      }
+
+      index = str.indexOf(';', position);
+    } else {
+      index = str.indexOf(';', position);
+      value = (index === -1 ? str.slice(position) : str.slice(position, index)).trim();
+    }
+
+    if (name[name.length - 1] === '*') {
+      const decoded = decodeExtValue(value);
+
+      if (decoded !== undefined) {
+        extended[name.slice(0, -1)] = decoded;
+      }
+    } else if (name) {
+      parameters[name] = value;
+    }
+  }
+
+  return { type, parameters: Object.assign(parameters, extended) };
+}
+
+/**
+ * Decode an extended parameter value, returns `undefined` when it cannot be decoded.
+ */
+function decodeExtValue(str: string) {
+  const match = EXT_VALUE_REGEXP.exec(str);
+
+  if (!match || !iconv.encodingExists(match[1])) {
+    return undefined;
+  }
+
+  const buf = Buffer.from(
+    match[2].replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1',
+  );
+
+  return iconv.decode(buf, match[1]);
+}
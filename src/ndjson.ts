@@ -0,0 +1,131 @@
+import createError from 'http-errors';
+
+import type { ReviverFn } from './types.js';
+
+/**
+ * The record separator of JSON text sequences, as defined in RFC 7464.
+ */
+const RS = '\x1e';
+const LF = '\n';
+
+/**
+ * RegExp to match a record that contains only whitespace, as defined in RFC 8259.
+ */
+const EMPTY_RECORD_REGEXP = /^[\x20\x09\x0a\x0d]*$/;
+
+export interface NdjsonStreamOptions {
+  /**
+   * When `true`, records are separated by the `RS` character (`application/json-seq`),
+   * otherwise by line breaks (`application/x-ndjson`).
+   */
+  sequence: boolean;
+  /**
+   * The maximum size of one record in bytes, when encoded as UTF-8.
+   */
+  recordLimit: number;
+  reviver?: ReviverFn;
+}
+
+/**
+ * Incremental parser for newline-delimited JSON and JSON text sequences. The decoded body
+ * is passed to the `write()` method chunk by chunk, and every record is passed to `onRecord`
+ * as soon as its end is found, so that only the current record is held in memory.
+ *
+ * Empty records are skipped. Errors are thrown from `write()` and `end()`, with the `line`
+ * (for newline-delimited JSON) and the `record` number of the record that failed.
+ */
+export class NdjsonStream {
+  /**
+   * The number of records parsed.
+   */
+  records = 0;
+  /**
+   * The number of line breaks read, for newline-delimited JSON.
+   */
+  lines = 0;
+
+  protected separator: string;
+  protected chunks: string[] = [];
+  protected size = 0;
+  /**
+   * The line of the beginning of the current record.
+   */
+  protected recordLine = 1;
+
+  constructor(
+    protected options: NdjsonStreamOptions,
+    protected onRecord: (value: any) => void,
+  ) {
+    this.separator = options.sequence ? RS : LF;
+  }
+
+  write(str: string) {
+    let start = 0;
+    let index: number;
+
+    while ((index = str.indexOf(this.separator, start)) !== -1) {
+      this.append(str.slice(start, index));
+      this.flush();
+      start = index + 1;
+
+      if (!this.options.sequence) {
+        this.lines++;
+        this.recordLine = this.lines + 1;
+      }
+    }
+
+    if (start < str.length) {
+      this.append(str.slice(start));
+    }
+  }
+
+  end() {
+    this.flush();
+  }
+
+  protected append(str: string) {
+    if (!str) return;
+
+    this.size += Buffer.byteLength(str);
+
+    if (this.size > this.options.recordLimit) {
+      throw createError(413, `record too large (${this.getPosition(this.records + 1)})`, {
+        limit: this.options.recordLimit,
+        line: this.options.sequence ? undefined : this.recordLine,
+        record: this.records + 1,
+        type: 'record.too.large',
+      });
+    }
+
+    this.chunks.push(str);
+  }
+
+  protected flush() {
+    const text = this.chunks.length == 1 ? this.chunks[0] : this.chunks.join('');
+    this.chunks = [];
+    this.size = 0;
+
+    if (EMPTY_RECORD_REGEXP.test(text)) {
+      return;
+    }
+
+    this.records++;
+    let value: any;
+
+    try {
+      value = JSON.parse(text, this.options.reviver);
+    } catch (err: any) {
+      throw createError(400, `${err.message} (${this.getPosition(this.records)})`, {
+        line: this.options.sequence ? undefined : this.recordLine,
+        record: this.records,
+        type: 'entity.parse.failed',
+      });
+    }
+
+    this.onRecord(value);
+  }
+
+  protected getPosition(record: number) {
+    return this.options.sequence ? `record ${record}` : `line ${this.recordLine}`;
+  }
+}
@@ -0,0 +1,586 @@
+import assert from 'node:assert';
+import http, { Server } from 'node:http';
+import zlib from 'node:zlib';
+import { Buffer } from 'safe-buffer';
+import request from 'supertest';
+
+import { getCborParser } from './cbor.js';
+import type { CborOptions } from '../types.js';
+
+describe('cbor()', function () {
+  let server: Server;
+  beforeAll(function () {
+    server = createServer();
+  });
+
+  it('should parse application/cbor', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('a1647573657264746f6269'))
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should parse +cbor suffix', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/vnd.api+cbor')
+      .send(hex('a1647573657264746f6269'))
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should parse simple values', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('8701201901f4f6f5f4f7'))
+      .expect(200, '[1,-1,500,null,true,false,null]', done);
+  });
+
+  it('should parse floats', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('83f93e00fa47c35000fb3ff199999999999a'))
+      .expect(200, '[1.5,100000,1.1]', done);
+  });
+
+  it('should parse unsafe 64-bit integers as bigint', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('821bffffffffffffffff3bffffffffffffffff'))
+      .expect(200, '["18446744073709551615n","-18446744073709551616n"]', done);
+  });
+
+  it('should parse bignums as bigint', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('82c249010000000000000000c349010000000000000000'))
+      .expect(200, '["18446744073709551616n","-18446744073709551617n"]', done);
+  });
+
+  it('should parse date/time strings as Date', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('81c074323031332d30332d32315432303a30343a30305a'))
+      .expect(200, '["2013-03-21T20:04:00.000Z"]', done);
+  });
+
+  it('should parse epoch-based dates as Date', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('81c11a514b67b0'))
+      .expect(200, '["2013-03-21T20:04:00.000Z"]', done);
+  });
+
+  it('should parse byte strings as Buffer', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('8143010203'))
+      .expect(200, '["buf:010203"]', done);
+  });
+
+  it('should parse indefinite-length byte strings', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('815f42010243030405ff'))
+      .expect(200, '["buf:0102030405"]', done);
+  });
+
+  it('should parse indefinite-length text strings', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('817f657374726561646d696e67ff'))
+      .expect(200, '["streaming"]', done);
+  });
+
+  it('should parse indefinite-length arrays', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('9f01820203ff'))
+      .expect(200, '[1,[2,3]]', done);
+  });
+
+  it('should parse indefinite-length maps', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('bf6161016162820203ff'))
+      .expect(200, '{"a":1,"b":[2,3]}', done);
+  });
+
+  it('should parse self-described CBOR', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('d9d9f7a1616101'))
+      .expect(200, '{"a":1}', done);
+  });
+
+  it('should keep value of unknown tag', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('81d82063666f6f'))
+      .expect(200, '["foo"]', done);
+  });
+
+  it('should define __proto__ as own property', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('a1695f5f70726f746f5f5fa1616101'))
+      .expect(200, '{"__proto__":{"a":1}}', done);
+  });
+
+  it('should handle Content-Length: 0', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .set('Content-Length', '0')
+      .expect(200, '{}', done);
+  });
+
+  it('should 400 when body is truncated', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('a1647573'))
+      .expect(400, '[entity.parse.failed] Unexpected end of CBOR input at position 4', done);
+  });
+
+  it('should 400 when declared length exceeds body', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('819a00000010'))
+      .expect(400, '[entity.parse.failed] Unexpected end of CBOR input at position 6', done);
+  });
+
+  it('should 400 when data follows the value', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('8000'))
+      .expect(400, '[entity.parse.failed] Unexpected data after CBOR value at position 1', done);
+  });
+
+  it('should 400 for break outside of indefinite-length item', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('81ff'))
+      .expect(400, '[entity.parse.failed] Unexpected CBOR break at position 1', done);
+  });
+
+  it('should 400 for break after key of indefinite-length map', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('bf6161ff'))
+      .expect(400, '[entity.parse.failed] Unexpected CBOR break at position 3', done);
+  });
+
+  it('should 400 for invalid chunk of indefinite-length string', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('815f01ff'))
+      .expect(400, '[entity.parse.failed] Invalid chunk of indefinite-length CBOR string at position 2', done);
+  });
+
+  it('should 400 for nested indefinite-length string', function (done) {
+    request(createServer({ indefiniteLength: true }))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('815f5fffff'))
+      .expect(400, '[entity.parse.failed] Invalid chunk of indefinite-length CBOR string at position 2', done);
+  });
+
+  it('should 400 for reserved additional information', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('811c'))
+      .expect(400, '[entity.parse.failed] Unexpected byte 0x1c in CBOR at position 1', done);
+  });
+
+  it('should 400 for invalid UTF-8', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('8162c328'))
+      .expect(400, '[entity.parse.failed] Invalid UTF-8 in CBOR text string at position 1', done);
+  });
+
+  it('should 400 for unsupported simple value', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('81f0'))
+      .expect(400, '[entity.parse.failed] Unsupported CBOR simple value 16 at position 1', done);
+  });
+
+  it('should 400 when map key is not a string or a number', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('a18001'))
+      .expect(400, '[entity.parse.failed] CBOR map key must be a string or a number at position 1', done);
+  });
+
+  it('should 400 for invalid content of tag', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(hex('81c163666f6f'))
+      .expect(400, '[entity.parse.failed] Invalid CBOR tag 1: expected a number at position 1', done);
+  });
+
+  it('should include position on error', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .set('X-Error-Property', 'position')
+      .send(hex('8000'))
+      .expect(400, '1', done);
+  });
+
+  describe('with tags option', function () {
+    it('should decode tags', function (done) {
+      const server = createServer({ tags: { 32: (value) => 'uri:' + value } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81d82063666f6f'))
+        .expect(200, '["uri:foo"]', done);
+    });
+
+    it('should pass the tag', function (done) {
+      const server = createServer({ tags: { 32: (value, tag) => tag } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81d82063666f6f'))
+        .expect(200, '[32]', done);
+    });
+
+    it('should override built-in tags', function (done) {
+      const server = createServer({ tags: { 1: (value) => value } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81c11a514b67b0'))
+        .expect(200, '[1363896240]', done);
+    });
+
+    it('should decode tags of maps', function (done) {
+      const server = createServer({ tags: { 32: (value) => Object.keys(value) } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81d820a2616101616202'))
+        .expect(200, '[["a","b"]]', done);
+    });
+
+    it('should reject invalid tag number', function () {
+      assert.throws(
+        createServer.bind(null, { tags: { [-1]: (value) => value } }),
+        /option tags must have non-negative integers as keys/,
+      );
+    });
+
+    it('should reject tag that is not a function', function () {
+      assert.throws(
+        createServer.bind(null, { tags: { 1: 'foo' as any } }),
+        /option tags must have functions as values/,
+      );
+    });
+  });
+
+  describe('with indefiniteLength option', function () {
+    it('should 400 on indefinite-length items by default', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('9f01ff'))
+        .expect(400, '[entity.parse.failed] Indefinite-length CBOR item is not allowed at position 0', done);
+    });
+
+    it('should 400 on indefinite-length items when false', function (done) {
+      request(createServer({ indefiniteLength: false }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('9f01ff'))
+        .expect(400, '[entity.parse.failed] Indefinite-length CBOR item is not allowed at position 0', done);
+    });
+
+    it('should parse definite-length items when false', function (done) {
+      request(createServer({ indefiniteLength: false }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('820102'))
+        .expect(200, '[1,2]', done);
+    });
+
+    it('should parse indefinite-length items when true', function (done) {
+      request(createServer({ indefiniteLength: true }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('9f01ff'))
+        .expect(200, '[1]', done);
+    });
+  });
+
+  describe('with strict option', function () {
+    describe('when undefined', function () {
+      it('should 400 on primitives', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/cbor')
+          .send(hex('64746f6269'))
+          .expect(400, '[entity.parse.failed] Unexpected CBOR value at position 0', done);
+      });
+
+      it('should 400 on self-described primitives', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/cbor')
+          .send(hex('d9d9f701'))
+          .expect(400, '[entity.parse.failed] Unexpected CBOR value at position 3', done);
+      });
+    });
+
+    describe('when false', function () {
+      it('should parse primitives', function (done) {
+        request(createServer({ strict: false }))
+          .post('/')
+          .set('Content-Type', 'application/cbor')
+          .send(hex('64746f6269'))
+          .expect(200, '"tobi"', done);
+      });
+    });
+  });
+
+  describe('with limit options', function () {
+    it('should 413 when nested too deep', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81818101'))
+        .expect(413, '[entity.depth.exceeded] CBOR depth limit exceeded', done);
+    });
+
+    it('should report the path', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .set('X-Error-Property', 'path')
+        .send(hex('81818101'))
+        .expect(413, '$[0][0]', done);
+    });
+
+    it('should 413 when array has too many items', function (done) {
+      request(createServer({ maxArrayLength: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('83010203'))
+        .expect(413, '[entity.array.length.exceeded] too many items in CBOR array', done);
+    });
+
+    it('should 413 when indefinite-length array has too many items', function (done) {
+      request(createServer({ maxArrayLength: 2, indefiniteLength: true }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('9f010203ff'))
+        .expect(413, '[entity.array.length.exceeded] too many items in CBOR array', done);
+    });
+
+    it('should 413 when map has too many keys', function (done) {
+      request(createServer({ maxKeys: 1 }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('a2616101616202'))
+        .expect(413, '[entity.keys.exceeded] too many keys in CBOR map', done);
+    });
+
+    it('should 413 when indefinite-length map has too many keys', function (done) {
+      request(createServer({ maxKeys: 1, indefiniteLength: true }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('bf616101616202ff'))
+        .expect(413, '[entity.keys.exceeded] too many keys in CBOR map', done);
+    });
+
+    it('should 413 when string is too long', function (done) {
+      request(createServer({ maxStringLength: 3 }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('8164746f6269'))
+        .expect(413, '[entity.string.length.exceeded] CBOR string too long', done);
+    });
+
+    it('should 413 when chunks of string are too long', function (done) {
+      request(createServer({ maxStringLength: 4, indefiniteLength: true }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('817f6361626363646566ff'))
+        .expect(413, '[entity.string.length.exceeded] CBOR string too long', done);
+    });
+
+    it('should report the path of the string', function (done) {
+      request(createServer({ maxStringLength: 3 }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .set('X-Error-Property', 'path')
+        .send(hex('a1616164746f6269'))
+        .expect(413, '$.a', done);
+    });
+  });
+
+  describe('with default limits', function () {
+    it('should accept 100 nested arrays', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81'.repeat(100) + '01'))
+        .expect(200, '['.repeat(100) + '1' + ']'.repeat(100), done);
+    });
+
+    it('should 413 when nested deeper than 100', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('81'.repeat(40000) + '01'))
+        .expect(413, '[entity.depth.exceeded] CBOR depth limit exceeded', done);
+    });
+
+    it('should 413 when indefinite-length arrays are nested deeper than 100', function (done) {
+      request(createServer({ indefiniteLength: true }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('9f'.repeat(40000)))
+        .expect(413, '[entity.depth.exceeded] CBOR depth limit exceeded', done);
+    });
+
+    it('should 413 when map has more than 10000 keys', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('ba00002711'))
+        .expect(413, '[entity.keys.exceeded] too many keys in CBOR map', done);
+    });
+
+    it('should 413 when array has more than 100000 items', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('9a000186a1'))
+        .expect(413, '[entity.array.length.exceeded] too many items in CBOR array', done);
+    });
+
+    it('should 413 when string is longer than 1 MiB', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('817a00100001'))
+        .expect(413, '[entity.string.length.exceeded] CBOR string too long', done);
+    });
+  });
+
+  describe('with emptyBody option', function () {
+    it('should return null when "null"', function (done) {
+      request(createServer({ emptyBody: 'null' }))
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .set('Content-Length', '0')
+        .expect(200, 'null', done);
+    });
+  });
+
+  describe('with type option', function () {
+    it('should parse for custom type', function (done) {
+      request(createServer({ type: 'application/x-cbor' }))
+        .post('/')
+        .set('Content-Type', 'application/x-cbor')
+        .send(hex('8101'))
+        .expect(200, '[1]', done);
+    });
+
+    it('should ignore other types', function (done) {
+      request(server).post('/').set('Content-Type', 'application/json').send('[1]').expect(200, '{}', done);
+    });
+  });
+
+  describe('with verify option', function () {
+    it('should assert value if function', function () {
+      assert.throws(createServer.bind(null, { verify: 'lol' as any }), /TypeError: option verify must be function/);
+    });
+
+    it('should allow custom codes', function (done) {
+      const server = createServer({
+        verify: function (req, buf) {
+          if (buf[0] !== 0x81) return;
+          const err: any = new Error('no arrays');
+          err.status = 400;
+          throw err;
+        },
+      });
+
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .send(hex('8101'))
+        .expect(400, '[entity.verify.failed] no arrays', done);
+    });
+  });
+
+  describe('encoding', function () {
+    it('should parse gzip encoding', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/cbor')
+        .set('Content-Encoding', 'gzip')
+        .send(zlib.gzipSync(hex('a1647573657264746f6269')))
+        .expect(200, '{"user":"tobi"}', done);
+    });
+  });
+});
+
+function hex(str: string): any {
+  return Buffer.from(str, 'hex');
+}
+
+function createServer(opts?: CborOptions) {
+  const cborParser = getCborParser(opts);
+
+  return http.createServer(async function (req, res) {
+    try {
+      const body = await cborParser(req, req.headers);
+      res.end(
+        JSON.stringify(body, function (this: any, key: string, value: any) {
+          if (Buffer.isBuffer(this[key])) {
+            return 'buf:' + this[key].toString('hex');
+          }
+
+          return typeof value == 'bigint' ? `${value}n` : value;
+        }),
+      );
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end(
+        req.headers['x-error-property']
+          ? String(err[req.headers['x-error-property'] as string])
+          : '[' + err.type + '] ' + err.message,
+      );
+    }
+  });
+}
@@ -0,0 +1,111 @@
+import debugInit from 'debug';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Readable } from 'node:stream';
+import { hasBody } from '@ts-stack/type-is';
+
+import read from '../read.js';
+import type { BodyParser, BodyParserWithoutCheck, CborOptions } from '../types.js';
+import { getCountLimit, getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
+import { CborDecoder } from '../cbor.js';
+
+const debug = debugInit('body-parser:cbor');
+
+const CBOR_TYPES = ['application/cbor', '+cbor'];
+
+/**
+ * Returns parser that only parses CBOR bodies and only looks at requests where
+ * the `Content-Type` header matches the `type` option. This parser supports automatic
+ * inflation of `gzip`, `deflate` and `br` encodings.
+ *
+ * The parser returns the decoded request body in a Promise.
+ *
+ * @param withoutCheck If you set this parameter to `true`, the presence
+ * of the request body and the matching of headers will not be checked.
+ */
+export function getCborParser(options?: CborOptions, withoutCheck?: false | undefined): BodyParser;
+export function getCborParser(options: CborOptions, withoutCheck: true): BodyParserWithoutCheck;
+export function getCborParser(options?: CborOptions, withoutCheck?: boolean): BodyParser | BodyParserWithoutCheck {
+  const opts = options || {};
+
+  const readOptions = getReadOptions(opts, '100kb');
+  const maxDepth = getCountLimit('maxDepth', opts.maxDepth, 100);
+  const maxKeys = getCountLimit('maxKeys', opts.maxKeys, 10000);
+  const maxArrayLength = getCountLimit('maxArrayLength', opts.maxArrayLength, 100000);
+  const maxStringLength = getCountLimit('maxStringLength', opts.maxStringLength, 1024 * 1024);
+  const tags = opts.tags || {};
+  const indefiniteLength = opts.indefiniteLength === true;
+  const strict = opts.strict !== false;
+  const type = opts.type || CBOR_TYPES;
+  const verify = opts.verify || false;
+  const emptyBody = getEmptyBody(opts.emptyBody);
+
+  if (verify !== false && typeof verify != 'function') {
+    throw new TypeError('option verify must be function');
+  }
+
+  for (const key of Object.keys(tags)) {
+    const tag = Number(key);
+
+    if (!Number.isSafeInteger(tag) || tag < 0) {
+      throw new TypeError('option tags must have non-negative integers as keys');
+    }
+
+    if (typeof tags[tag] != 'function') {
+      throw new TypeError('option tags must have functions as values');
+    }
+  }
+
+  // create the appropriate type checking function
+  const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
+
+  const decoder = new CborDecoder({
+    maxDepth,
+    maxKeys,
+    maxArrayLength,
+    maxStringLength,
+    strict,
+    indefiniteLength,
+    tags,
+  });
+
+  function parse(buf: Buffer) {
+    if (buf.length === 0) {
+      return emptyBody();
+    }
+
+    debug('decode cbor');
+    return decoder.decode(buf);
+  }
+
+  function cborParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    return read(req, headers, parse, debug, {
+      ...readOptions,
+      encoding: null,
+      signal,
+      verify,
+    });
+  }
+
+  if (withoutCheck) {
+    cborParserWithoutCheck.shouldParse = shouldParse;
+    return cborParserWithoutCheck as BodyParserWithoutCheck;
+  } else {
+    return function cborParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+      // skip requests without bodies
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return new Promise((resolve) => resolve(emptyBody()));
+      }
+
+      debug(`content-type ${headers['content-type']}`);
+
+      // determine if request should be parsed
+      if (!shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve({});
+      }
+
+      return cborParserWithoutCheck(req, headers, signal);
+    } as BodyParser;
+  }
+}
@@ -0,0 +1,321 @@
+import assert from 'node:assert';
+import http, { Server } from 'node:http';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import { Buffer } from 'safe-buffer';
+import request from 'supertest';
+
+import { getJsonStreamParser } from './json-stream.js';
+import type { JsonStreamOptions } from '../types.js';
+
+describe('jsonStream()', function () {
+  let server: Server;
+  beforeAll(function () {
+    server = createServer();
+  });
+
+  it('should parse the items of top-level array', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('[{"user":"tobi"}, {"user":"loki"}]')
+      .expect(200, '[{"user":"tobi"},{"user":"loki"}]', done);
+  });
+
+  it('should handle empty body', function (done) {
+    request(server).post('/').set('Content-Type', 'application/json').send('').expect(200, '[]', done);
+  });
+
+  it('should not parse other types', function (done) {
+    request(server).post('/').set('Content-Type', 'text/plain').send('[1]').expect(200, '[]', done);
+  });
+
+  it('should 400 with position of malformed JSON', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('[1,\n2,\n}]')
+      .expect(400, /^\[entity\.parse\.failed\] Unexpected token '}' in JSON at position 7 \(line 3 column 1\)$/, done);
+  });
+
+  it('should 400 when a skipped value is malformed', function (done) {
+    const server = createServer({ select: '$.items[*]' });
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'position')
+      .send('{"items":[1],"other":[tru]}')
+      .expect(400, '25', done);
+  });
+
+  it('should 400 when the document is truncated', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('[1,2')
+      .expect(400, '[entity.parse.failed] Unexpected end of JSON input at position 4 (line 1 column 5)', done);
+  });
+
+  it('should parse values split across chunks', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'application/json');
+    test.write('[{"na');
+    test.write('me":"论"},12');
+    test.write('34, "\\u00');
+    test.write(Buffer.from([0x65, 0x39, 0x22, 0x2c, 0x20, 0x22, 0xe8, 0xae]) as any);
+    test.write(Buffer.from([0xba, 0x22, 0x5d]) as any);
+    test.expect(200, '[{"name":"论"},1234,"é","论"]', done);
+  });
+
+  it('should inflate gzip', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Encoding', 'gzip');
+    test.set('Content-Type', 'application/json');
+    test.write(zlib.gzipSync('[1,2,3]') as any);
+    test.expect(200, '[1,2,3]', done);
+  });
+
+  it('should 415 for unsupported charset', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json; charset=koi8-r')
+      .send('[1]')
+      .expect(415, '[charset.unsupported] unsupported charset "KOI8-R"', done);
+  });
+
+  describe('with select option', function () {
+    it('should select the items of a nested array', function (done) {
+      const server = createServer({ select: '$.items[*]' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"total":2,"items":[{"id":1},{"id":2}],"next":{"items":[3]}}')
+        .expect(200, '[{"id":1},{"id":2}]', done);
+    });
+
+    it('should select nested values of every item', function (done) {
+      const server = createServer({ select: '$["the items"][*].id' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"the items":[{"id":1,"x":[]},{"x":{}},{"id":"two"}]}')
+        .expect(200, '[1,"two"]', done);
+    });
+
+    it('should select by index', function (done) {
+      const server = createServer({ select: '$[1]' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('["a","b","c"]')
+        .expect(200, '["b"]', done);
+    });
+
+    it('should select the values of an object', function (done) {
+      const server = createServer({ select: '$.*' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"a":1,"b":{"c":2}}')
+        .expect(200, '[1,{"c":2}]', done);
+    });
+
+    it('should select the whole document', function (done) {
+      const server = createServer({ select: '$' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"a":[1]}')
+        .expect(200, '[{"a":[1]}]', done);
+    });
+
+    it('should match escaped keys', function (done) {
+      const server = createServer({ select: '$.items[*]' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"\\u0069tems":[true]}')
+        .expect(200, '[true]', done);
+    });
+
+    it('should reject invalid select', function () {
+      assert.throws(
+        () => getJsonStreamParser({ select: 'items[*]' }),
+        /TypeError: option select must be a path like "\$\.items\[\*\]"/,
+      );
+      assert.throws(() => getJsonStreamParser({ select: '$.items[' }), /TypeError: option select must be a path/);
+    });
+  });
+
+  describe('with strict option', function () {
+    it('should 400 for a primitive by default', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('true')
+        .expect(400, /^\[entity\.parse\.failed\] Unexpected token 't' in JSON at position 0/, done);
+    });
+
+    it('should allow a primitive when false', function (done) {
+      const server = createServer({ strict: false, select: '$' });
+      request(server).post('/').set('Content-Type', 'application/json').send(' 42 ').expect(200, '[42]', done);
+    });
+  });
+
+  describe('with recordLimit option', function () {
+    it('should 413 when a selected value is too large', function (done) {
+      const server = createServer({ recordLimit: 10 });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('["short", "much too long"]')
+        .expect(413, '[record.too.large] record too large ($[1])', done);
+    });
+
+    it('should not limit skipped values', function (done) {
+      const server = createServer({ recordLimit: 10, select: '$.items[*]' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"description":"much too long","items":[1]}')
+        .expect(200, '[1]', done);
+    });
+  });
+
+  describe('with maxDepth option', function () {
+    it('should 413 when the document is too deep', function (done) {
+      const server = createServer({ maxDepth: 3 });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('[[[1]], [[[2]]]]')
+        .expect(413, '[entity.depth.exceeded] JSON depth limit exceeded', done);
+    });
+
+    it('should reject invalid maxDepth', function () {
+      assert.throws(
+        () => getJsonStreamParser({ maxDepth: -1 }),
+        /TypeError: option maxDepth must be a non-negative number/,
+      );
+    });
+  });
+
+  describe('with maxArrayLength option', function () {
+    it('should 413 when an array has too many items', function (done) {
+      const server = createServer({ maxArrayLength: 2, select: '$.items[*]' });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('{"items":[1,2,3]}')
+        .expect(413, '[entity.array.length.exceeded] too many items in JSON array', done);
+    });
+  });
+
+  describe('with limit option', function () {
+    it('should 413 when the body is too large', function (done) {
+      const server = createServer({ limit: 10 });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('[1,2,3,4,5,6]')
+        .expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with reviver option', function () {
+    it('should revive every value', function (done) {
+      const server = createServer({
+        reviver(key, value) {
+          return key === 'user' ? value.toUpperCase() : value;
+        },
+      });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send('[{"user":"tobi"},{"user":"loki"}]')
+        .expect(200, '[{"user":"TOBI"},{"user":"LOKI"}]', done);
+    });
+  });
+
+  describe('iteration', function () {
+    const headers = { 'content-type': 'application/json', 'transfer-encoding': 'chunked' };
+
+    it('should yield values before the body has been read', async function () {
+      // the body is much larger than what the stream buffers by itself
+      let pushed = 0;
+      let pushedBytes = 0;
+      const req = new Readable({
+        read() {
+          if (pushed === 0) {
+            this.push('{"items":[');
+          } else if (pushedBytes < this.readableHighWaterMark * 8) {
+            const item = `${pushed},`;
+            pushedBytes += item.length;
+            this.push(item);
+          } else {
+            this.push('0]}');
+            this.push(null);
+          }
+          pushed++;
+        },
+      });
+
+      const items: AsyncIterable<number> = await getJsonStreamParser({ select: '$.items[*]' })(req, headers);
+      const values: number[] = [];
+
+      for await (const value of items) {
+        values.push(value);
+        if (values.length == 3) break;
+      }
+
+      assert.strictEqual(values.join(), '1,2,3');
+      assert.ok(pushedBytes < req.readableHighWaterMark * 8);
+    });
+
+    it('should throw errors after the first values', async function () {
+      const req = Readable.from(['[1,', '2,', '}']);
+      const items: AsyncIterable<number> = await getJsonStreamParser()(req, headers);
+      const values: number[] = [];
+
+      await assert.rejects(
+        async () => {
+          for await (const value of items) {
+            values.push(value);
+          }
+        },
+        (err: any) => {
+          assert.strictEqual(err.status, 400);
+          assert.strictEqual(err.type, 'entity.parse.failed');
+          assert.strictEqual(err.position, 5);
+          return true;
+        },
+      );
+      assert.strictEqual(values.join(), '1,2');
+    });
+  });
+});
+
+function createServer(opts?: JsonStreamOptions) {
+  const jsonStreamParser = getJsonStreamParser(opts);
+
+  return http.createServer(async function (req, res) {
+    try {
+      const items: AsyncIterable<any> = await jsonStreamParser(req, req.headers);
+      const values: any[] = [];
+
+      for await (const value of items) {
+        values.push(value);
+      }
+
+      res.statusCode = 200;
+      res.end(JSON.stringify(values));
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end(
+        req.headers['x-error-property']
+          ? String(err[req.headers['x-error-property'] as string])
+          : '[' + err.type + '] ' + err.message,
+      );
+    }
+  });
+}
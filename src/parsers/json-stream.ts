@@ -0,0 +1,119 @@
+import bytes from 'bytes';
+import createError from 'http-errors';
+import debugInit from 'debug';
+import iconv from 'iconv-lite';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Readable } from 'node:stream';
+import { hasBody } from '@ts-stack/type-is';
+
+import readIterable, { getEmptyIterable } from '../read-iterable.js';
+import type { BodyParser, BodyParserWithoutCheck, JsonStreamOptions } from '../types.js';
+import { getCharset, getCountLimit, getReadOptions, getTypeChecker } from '../utils.js';
+import { JsonSelectStream, parseJsonSelector } from '../json-stream.js';
+
+const debug = debugInit('body-parser:json-stream');
+
+/**
+ * Returns parser that only parses `json` and only looks at requests where
+ * the `Content-Type` header matches the `type` option. This parser accepts any
+ * Unicode encoding of the body and supports automatic inflation of `gzip`, `deflate` and
+ * `br` encodings.
+ *
+ * The body is not buffered: the parser returns in a Promise an `AsyncIterable` of the
+ * values that match the `select` option, that are read from the request as they are iterated:
+ *
+ * ```ts
+const jsonStreamParser = getJsonStreamParser({ select: '$.items[*]' });
+const items = await jsonStreamParser<AsyncIterable<Item>>(req, req.headers);
+
+for await (const item of items) {
+  // ...
+}
+ * ```
+ *
+ * The Promise is rejected if the body cannot be read at all, e.g. for an unsupported
+ * charset or content encoding; errors after the first chunk of the body are thrown by
+ * the iteration. Stopping the iteration early cancels reading of the request.
+ *
+ * @param withoutCheck If you set this parameter to `true`, the presence
+ * of the request body and the matching of headers will not be checked.
+ */
+export function getJsonStreamParser(options?: JsonStreamOptions, withoutCheck?: false | undefined): BodyParser;
+export function getJsonStreamParser(options: JsonStreamOptions, withoutCheck: true): BodyParserWithoutCheck;
+export function getJsonStreamParser(
+  options?: JsonStreamOptions,
+  withoutCheck?: boolean,
+): BodyParser | BodyParserWithoutCheck {
+  const opts = options || {};
+
+  const readOptions = getReadOptions(opts, '100mb');
+  const recordLimit = typeof opts.recordLimit != 'number' ? bytes.parse(opts.recordLimit || '100kb') : opts.recordLimit;
+  const maxDepth = getCountLimit('maxDepth', opts.maxDepth, Infinity);
+  const maxKeys = getCountLimit('maxKeys', opts.maxKeys, Infinity);
+  const maxArrayLength = getCountLimit('maxArrayLength', opts.maxArrayLength, Infinity);
+  const maxStringLength = getCountLimit('maxStringLength', opts.maxStringLength, Infinity);
+  const reviver = opts.reviver;
+  const selector = parseJsonSelector(opts.select || '$[*]');
+  const strict = opts.strict !== false;
+  const type = opts.type || 'application/json';
+
+  if (!selector) {
+    throw new TypeError('option select must be a path like "$.items[*]"');
+  }
+
+  if (isNaN(recordLimit) || recordLimit <= 0) {
+    throw new TypeError('option recordLimit must be a positive number');
+  }
+
+  // create the appropriate type checking function
+  const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
+
+  function getStream(push: (value: any) => void) {
+    return new JsonSelectStream(
+      { selector: selector!, strict, maxDepth, maxKeys, maxArrayLength, maxStringLength, recordLimit, reviver },
+      push,
+    );
+  }
+
+  async function jsonStreamParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    // assert charset per RFC 7159 sec 8.1
+    const charset = getCharset(headers) || 'utf-8';
+    if (charset.slice(0, 4) !== 'utf-' || !iconv.encodingExists(charset)) {
+      debug('invalid charset');
+      throw createError(415, 'unsupported charset "' + charset.toUpperCase() + '"', {
+        charset,
+        type: 'charset.unsupported',
+      });
+    }
+
+    // read
+    return readIterable(req, headers, getStream, debug, {
+      ...readOptions,
+      encoding: charset,
+      signal,
+    });
+  }
+
+  if (withoutCheck) {
+    jsonStreamParserWithoutCheck.shouldParse = shouldParse;
+    return jsonStreamParserWithoutCheck as BodyParserWithoutCheck;
+  } else {
+    return function jsonStreamParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+      // skip requests without bodies
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return Promise.resolve(getEmptyIterable());
+      }
+
+      debug(`content-type ${headers['content-type']}`);
+
+      // determine if request should be parsed
+      if (!shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve(getEmptyIterable());
+      }
+
+      return jsonStreamParserWithoutCheck(req, headers, signal);
+    } as BodyParser;
+  }
+}
@@ -5,7 +5,6 @@
  * MIT Licensed
  */
 
-import bytes from 'bytes';
 import createError from 'http-errors';
 import debugInit from 'debug';
 import type { IncomingHttpHeaders } from 'node:http';
@@ -13,8 +12,17 @@ import type { Readable } from 'node:stream';
 import { hasBody } from '@ts-stack/type-is';
 
 import read from '../read.js';
-import type { BodyParser, BodyParserWithoutCheck, JsonOptions } from '../types.js';
-import { getCharset, getTypeChecker } from '../utils.js';
+import type {
+  BodyParser,
+  BodyParserWithoutCheck,
+  DuplicateKeysAction,
+  JsonLimitOptions,
+  JsonOptions,
+  PrototypeAction,
+} from '../types.js';
+import { getCharset, getCountLimit, getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
+import { formatPath, JsonPath, JsonTokenizer, JsonTokenizerHandlers } from '../json-tokenizer.js';
+import { parseJsonNumbers } from '../json-numbers.js';
 
 const debug = debugInit('body-parser:json');
 
@@ -28,14 +36,26 @@ const debug = debugInit('body-parser:json');
 
 const FIRST_CHAR_REGEXP = /^[\x20\x09\x0a\x0d]*([^\x20\x09\x0a\x0d])/;
 
-const JSON_SYNTAX_CHAR = '#';
-const JSON_SYNTAX_REGEXP = /#+/g;
+/**
+ * RegExps to match the `__proto__` and `constructor` keys, including keys with escaped characters.
+ */
+const PROTO_KEY_REGEXP = getKeyRegExp('__proto__');
+const CONSTRUCTOR_KEY_REGEXP = getKeyRegExp('constructor');
+
+const PROTOTYPE_ACTIONS: PrototypeAction[] = ['error', 'remove', 'ignore'];
+const DUPLICATE_KEYS_ACTIONS: DuplicateKeysAction[] = ['last', 'first', 'error'];
+const NUMBERS_OPTIONS = ['number', 'bigint', 'string'];
+
+/**
+ * The number of characters on each side of the position of a syntax error in its excerpt.
+ */
+const EXCERPT_LENGTH = 16;
 
 /**
  * Returns parser that only parses `json` and only looks at requests where
  * the `Content-Type` header matches the `type` option. This parser accepts any
- * Unicode encoding of the body and supports automatic inflation of `gzip` and
- * `deflate` encodings.
+ * Unicode encoding of the body and supports automatic inflation of `gzip`, `deflate` and
+ * `br` encodings.
  *
  * The parser returns the request body in a Promise.
  *
@@ -47,10 +67,18 @@ export function getJsonParser(options: JsonOptions, withoutCheck: true): BodyPar
 export function getJsonParser(options?: JsonOptions, withoutCheck?: boolean): BodyParser | BodyParserWithoutCheck {
   const opts = options || {};
 
-  const limit = typeof opts.limit != 'number' ? bytes.parse(opts.limit || '100kb') : opts.limit;
-  const inflate = opts.inflate !== false;
+  const readOptions = getReadOptions(opts, '100kb');
+  const maxDepth = getCountLimit('maxDepth', opts.maxDepth, Infinity);
+  const maxKeys = getCountLimit('maxKeys', opts.maxKeys, Infinity);
+  const maxArrayLength = getCountLimit('maxArrayLength', opts.maxArrayLength, Infinity);
+  const maxStringLength = getCountLimit('maxStringLength', opts.maxStringLength, Infinity);
   const reviver = opts.reviver;
   const strict = opts.strict !== false;
+  const protoAction = opts.protoAction || 'ignore';
+  const constructorAction = opts.constructorAction || 'ignore';
+  const duplicateKeys = opts.duplicateKeys || 'last';
+  const numbers = opts.numbers || 'number';
+  const emptyBody = getEmptyBody(opts.emptyBody);
   const type = opts.type || 'application/json';
   const verify = opts.verify || false;
 
@@ -58,18 +86,40 @@ export function getJsonParser(options?: JsonOptions, withoutCheck?: boolean): Bo
     throw new TypeError('option verify must be function');
   }
 
+  if (!PROTOTYPE_ACTIONS.includes(protoAction)) {
+    throw new TypeError('option protoAction must be "error", "remove" or "ignore"');
+  }
+
+  if (!PROTOTYPE_ACTIONS.includes(constructorAction)) {
+    throw new TypeError('option constructorAction must be "error", "remove" or "ignore"');
+  }
+
+  if (!DUPLICATE_KEYS_ACTIONS.includes(duplicateKeys)) {
+    throw new TypeError('option duplicateKeys must be "last", "first" or "error"');
+  }
+
+  if (typeof numbers != 'function' && !NUMBERS_OPTIONS.includes(numbers)) {
+    throw new TypeError('option numbers must be "number", "bigint", "string" or a function');
+  }
+
   // create the appropriate type checking function
   const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
 
+  // the structure is only scanned when it is limited, or when duplicate keys are checked
+  const limits =
+    maxDepth !== Infinity || maxKeys !== Infinity || maxArrayLength !== Infinity || maxStringLength !== Infinity
+      ? { maxDepth, maxKeys, maxArrayLength, maxStringLength }
+      : null;
+  const scan = limits !== null || duplicateKeys !== 'last';
+
   function parse(body: string) {
     if (body.length === 0) {
       // special-case empty json body, as it's a common client-side mistake
-      // TODO: maybe make this configurable or part of "strict" option
-      return {};
+      return emptyBody();
     }
 
     if (strict) {
-      const first = firstchar(body) as string;
+      const first = firstchar(body);
 
       if (first !== '{' && first !== '[') {
         debug('strict violation');
@@ -77,18 +127,42 @@ export function getJsonParser(options?: JsonOptions, withoutCheck?: boolean): Bo
       }
     }
 
+    let text = body;
+
+    if (scan) {
+      debug('scan json');
+      text = scanJson(body, limits || {}, duplicateKeys);
+    }
+
+    let value: any;
+
     try {
       debug('parse json');
-      return JSON.parse(body, reviver);
+      value = numbers === 'number' ? JSON.parse(text, reviver) : parseJsonNumbers(text, numbers, reviver);
     } catch (e: any) {
+      if (e instanceof SyntaxError) {
+        throw createJsonSyntaxError(e, text, findSyntaxError(text));
+      }
+
       throw normalizeJsonSyntaxError(e, {
         message: e.message,
         stack: e.stack,
       });
     }
+
+    // objects are only scanned when the text has a suspicious key
+    const checkProto = protoAction !== 'ignore' && PROTO_KEY_REGEXP.test(body);
+    const checkConstructor = constructorAction !== 'ignore' && CONSTRUCTOR_KEY_REGEXP.test(body);
+
+    if (checkProto || checkConstructor) {
+      debug('scan json for prototype poisoning');
+      filterPrototypeKeys(value, checkProto ? protoAction : 'ignore', checkConstructor ? constructorAction : 'ignore');
+    }
+
+    return value;
   }
 
-  async function jsonParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders) {
+  async function jsonParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
     // assert charset per RFC 7159 sec 8.1
     const charset = getCharset(headers) || 'utf-8';
     if (charset.slice(0, 4) !== 'utf-') {
@@ -101,9 +175,9 @@ export function getJsonParser(options?: JsonOptions, withoutCheck?: boolean): Bo
 
     // read
     return read(req, headers, parse, debug, {
+      ...readOptions,
       encoding: charset,
-      inflate,
-      limit,
+      signal,
       verify,
     });
   }
@@ -112,11 +186,11 @@ export function getJsonParser(options?: JsonOptions, withoutCheck?: boolean): Bo
     jsonParserWithoutCheck.shouldParse = shouldParse;
     return jsonParserWithoutCheck as BodyParserWithoutCheck;
   } else {
-    return function jsonParser(req: Readable, headers: IncomingHttpHeaders) {
+    return function jsonParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
       // skip requests without bodies
       if (!hasBody(headers)) {
         debug('skip empty body');
-        return Promise.resolve({});
+        return new Promise((resolve) => resolve(emptyBody()));
       }
 
       debug(`content-type ${headers['content-type']}`);
@@ -127,37 +201,217 @@ export function getJsonParser(options?: JsonOptions, withoutCheck?: boolean): Bo
         return Promise.resolve({});
       }
 
-      return jsonParserWithoutCheck(req, headers);
+      return jsonParserWithoutCheck(req, headers, signal);
     } as BodyParser;
   }
 }
 
 /**
- * Create strict violation syntax error matching native error.
+ * Scan a JSON text before it is parsed: assert that its structure is within the limits, and
+ * find the keys that occur more than once in an object, unless `duplicateKeys` is `'last'`.
+ * With `'first'`, the text is returned without the later members of a duplicate key.
+ *
+ * Syntax errors are left to `JSON.parse()`, so that they are reported the same way
+ * with and without the scan.
+ */
+function scanJson(body: string, limits: JsonLimitOptions, duplicateKeys: DuplicateKeysAction) {
+  const handlers: JsonTokenizerHandlers = {};
+  // the text ranges of the members to remove
+  const ranges: [number, number][] = [];
+
+  if (duplicateKeys !== 'last') {
+    // the keys of the objects in the current path, by depth
+    const keySets: Set<string>[] = [];
+    let removed: { depth: number; start: number } | null = null;
+
+    handlers.onValueStart = (path) => {
+      keySets.length = path.length;
+    };
+
+    handlers.onKey = (path, position) => {
+      const depth = path.length - 1;
+      const key = path[depth] as string;
+      const keys = keySets[depth] || (keySets[depth] = new Set());
+
+      if (!keys.has(key)) {
+        keys.add(key);
+      } else if (duplicateKeys === 'error') {
+        throw createDuplicateKeyError(path);
+      } else if (!removed) {
+        // a duplicate key is never the first member, so it follows a comma
+        removed = { depth: path.length, start: body.lastIndexOf(',', position) };
+      }
+    };
+
+    handlers.onValueEnd = (path, text, end) => {
+      if (removed && path.length === removed.depth) {
+        ranges.push([removed.start, end]);
+        removed = null;
+      }
+    };
+  }
+
+  const tokenizer = new JsonTokenizer(limits, handlers);
+
+  try {
+    tokenizer.write(body);
+  } catch (err: any) {
+    if (err.type !== 'entity.parse.failed') {
+      debug('%s', err.message);
+      throw err;
+    }
+
+    return body;
+  }
+
+  if (!ranges.length) {
+    return body;
+  }
+
+  debug('remove %d duplicate keys', ranges.length);
+  let text = '';
+  let index = 0;
+
+  for (const [start, end] of ranges) {
+    text += body.slice(index, start);
+    index = end;
+  }
+
+  return text + body.slice(index);
+}
+
+/**
+ * Get the RegExp to match a key of an object in a JSON text, with any of its characters escaped.
+ */
+function getKeyRegExp(key: string) {
+  const chars = key.split('').map((char) => {
+    const hex = char.charCodeAt(0).toString(16).padStart(4, '0');
+    return `(?:${char}|\\\\u${hex.slice(0, 3)}[${hex[3]}${hex[3].toUpperCase()}])`;
+  });
+
+  return new RegExp(`"${chars.join('')}"\\s*:`);
+}
+
+/**
+ * Find the `__proto__` keys, and the `constructor` keys with a `prototype` key in their value,
+ * of the objects of a parsed value, and remove them or throw an error.
  */
-function createStrictSyntaxError(str: string, char: string) {
-  const index = str.indexOf(char);
-  let partial = '';
+function filterPrototypeKeys(value: any, protoAction: PrototypeAction, constructorAction: PrototypeAction) {
+  const stack: [any, JsonPath][] = [[value, []]];
 
-  if (index !== -1) {
-    partial = str.substring(0, index) + JSON_SYNTAX_CHAR;
+  while (stack.length) {
+    const [obj, path] = stack.pop()!;
 
-    for (let i = index + 1; i < str.length; i++) {
-      partial += JSON_SYNTAX_CHAR;
+    if (!obj || typeof obj != 'object') {
+      continue;
+    }
+
+    if (protoAction !== 'ignore' && Object.prototype.hasOwnProperty.call(obj, '__proto__')) {
+      if (protoAction === 'error') {
+        throw createPrototypeError(path, '__proto__');
+      }
+
+      delete obj.__proto__;
+    }
+
+    if (
+      constructorAction !== 'ignore' &&
+      Object.prototype.hasOwnProperty.call(obj, 'constructor') &&
+      obj.constructor &&
+      typeof obj.constructor == 'object' &&
+      Object.prototype.hasOwnProperty.call(obj.constructor, 'prototype')
+    ) {
+      if (constructorAction === 'error') {
+        throw createPrototypeError(path, 'constructor');
+      }
+
+      delete obj.constructor;
+    }
+
+    for (const key of Object.keys(obj)) {
+      stack.push([obj[key], [...path, Array.isArray(obj) ? Number(key) : key]]);
     }
   }
+}
+
+function createPrototypeError(path: JsonPath, key: string) {
+  debug('forbidden %s key', key);
+  return createError(400, `object contains forbidden prototype property "${key}"`, {
+    key,
+    path: formatPath(path),
+    type: 'entity.parse.prototype',
+  });
+}
+
+function createDuplicateKeyError(path: JsonPath) {
+  debug('duplicate key');
+  return createError(400, 'duplicate key in JSON object', {
+    key: path[path.length - 1],
+    path: formatPath(path),
+    type: 'entity.parse.duplicate',
+  });
+}
+
+/**
+ * Create strict violation syntax error.
+ */
+function createStrictSyntaxError(str: string, char: string | undefined) {
+  // a body of only whitespace ends before its first token
+  const index = char !== undefined ? str.indexOf(char) : str.length;
+  return createJsonSyntaxError(new SyntaxError('strict violation'), str, index);
+}
+
+/**
+ * Find the position of the syntax error of a JSON text that `JSON.parse()` has rejected.
+ */
+function findSyntaxError(text: string) {
+  const tokenizer = new JsonTokenizer();
 
   try {
-    JSON.parse(partial);
-    throw new SyntaxError('strict violation');
-  } catch (e: any) {
-    return normalizeJsonSyntaxError(e, {
-      message: e.message.replace(JSON_SYNTAX_REGEXP, function (placeholder: string) {
-        return str.substring(index, index + placeholder.length);
-      }),
-      stack: e.stack,
-    });
+    tokenizer.write(text);
+    tokenizer.end();
+  } catch (err: any) {
+    return err.position as number;
   }
+
+  return undefined;
+}
+
+/**
+ * Create the error for a syntax error in a JSON text. The message of `JSON.parse()` quotes
+ * the body, so the message is built from the location of the error instead. The `position`,
+ * `line` and `column` properties are set to the location, and the `excerpt` property to the line
+ * around it, with everything but the punctuation of JSON replaced by `*`, so that the values
+ * of the body are not disclosed.
+ */
+function createJsonSyntaxError(e: SyntaxError, text: string, position: number | undefined) {
+  if (position === undefined) {
+    return normalizeJsonSyntaxError(e, { message: 'Invalid JSON', stack: e.stack });
+  }
+
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  const lineEnd = text.indexOf('\n', position);
+  const start = Math.max(lineStart, position - EXCERPT_LENGTH);
+  const end = Math.min(lineEnd === -1 ? text.length : lineEnd, position + EXCERPT_LENGTH);
+  const column = position - lineStart + 1;
+  let line = 1;
+
+  for (let i = text.indexOf('\n'); i !== -1 && i < position; i = text.indexOf('\n', i + 1)) {
+    line++;
+  }
+
+  const reason = position < text.length ? 'Unexpected token in JSON' : 'Unexpected end of JSON input';
+  const error = normalizeJsonSyntaxError(e, {
+    message: `${reason} at position ${position} (line ${line} column ${column})`,
+    stack: e.stack,
+  });
+
+  error.position = position;
+  error.line = line;
+  error.column = column;
+  error.excerpt = text.slice(start, end).replace(/[^{}[\]:,"\s]/g, '*');
+
+  return error;
 }
 
 /**
@@ -0,0 +1,446 @@
+import assert from 'node:assert';
+import http, { Server } from 'node:http';
+import zlib from 'node:zlib';
+import { Buffer } from 'safe-buffer';
+import request from 'supertest';
+
+import { getMsgpackParser } from './msgpack.js';
+import type { MsgpackOptions } from '../types.js';
+
+describe('msgpack()', function () {
+  let server: Server;
+  beforeAll(function () {
+    server = createServer();
+  });
+
+  it('should parse application/msgpack', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('81a475736572a4746f6269'))
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should parse application/x-msgpack', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-msgpack')
+      .send(hex('9601ffcd012cc0c3c2'))
+      .expect(200, '[1,-1,300,null,true,false]', done);
+  });
+
+  it('should parse floats', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('92cb3ff8000000000000ca3f000000'))
+      .expect(200, '[1.5,0.5]', done);
+  });
+
+  it('should parse unsafe 64-bit integers as bigint', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('93cf0000000000000001cfffffffffffffffffd38000000000000000'))
+      .expect(200, '[1,"18446744073709551615n","-9223372036854775808n"]', done);
+  });
+
+  it('should parse binary data as Buffer', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('91c403010203'))
+      .expect(200, '["buf:010203"]', done);
+  });
+
+  it('should parse timestamps as Date', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('91d6ff00000001'))
+      .expect(200, '["1970-01-01T00:00:01.000Z"]', done);
+  });
+
+  it('should define __proto__ as own property', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('81a95f5f70726f746f5f5f81a16101'))
+      .expect(200, '{"__proto__":{"a":1}}', done);
+  });
+
+  it('should handle Content-Length: 0', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .set('Content-Length', '0')
+      .expect(200, '{}', done);
+  });
+
+  it('should 400 when body is truncated', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('82a475736572'))
+      .expect(400, '[entity.parse.failed] Unexpected end of MessagePack input at position 6', done);
+  });
+
+  it('should 400 when declared length exceeds body', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('91dd00000010'))
+      .expect(400, '[entity.parse.failed] Unexpected end of MessagePack input at position 6', done);
+  });
+
+  it('should 400 when data follows the value', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('9000'))
+      .expect(400, '[entity.parse.failed] Unexpected data after MessagePack value at position 1', done);
+  });
+
+  it('should 400 for reserved byte', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('91c1'))
+      .expect(400, '[entity.parse.failed] Unexpected byte 0xc1 in MessagePack at position 1', done);
+  });
+
+  it('should 400 when map key is not a string or a number', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('819001'))
+      .expect(400, '[entity.parse.failed] MessagePack map key must be a string or a number at position 1', done);
+  });
+
+  it('should include position on error', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .set('X-Error-Property', 'position')
+      .send(hex('9000'))
+      .expect(400, '1', done);
+  });
+
+  it('should 400 for unknown extension type', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(hex('91d40500'))
+      .expect(400, '[entity.parse.failed] Unknown MessagePack extension type 5 at position 1', done);
+  });
+
+  describe('with extensions option', function () {
+    it('should decode extension types', function (done) {
+      const server = createServer({ extensions: { 1: (data) => data[0] } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91d4012a'))
+        .expect(200, '[42]', done);
+    });
+
+    it('should pass the extension type', function (done) {
+      const server = createServer({ extensions: { [-2]: (data, type) => type } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91d4fe00'))
+        .expect(200, '[-2]', done);
+    });
+
+    it('should override the timestamp type', function (done) {
+      const server = createServer({ extensions: { [-1]: (data) => data.readUInt32BE(0) } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91d6ff00000001'))
+        .expect(200, '[1]', done);
+    });
+
+    it('should 400 when extension throws', function (done) {
+      const server = createServer({
+        extensions: {
+          1: () => {
+            throw new Error('bad data');
+          },
+        },
+      });
+
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91d40100'))
+        .expect(400, '[entity.parse.failed] Invalid MessagePack extension type 1: bad data at position 1', done);
+    });
+
+    it('should reject extension type out of range', function () {
+      assert.throws(
+        createServer.bind(null, { extensions: { 128: (data) => data } }),
+        /option extensions must have types from -128 to 127/,
+      );
+    });
+
+    it('should reject extension that is not a function', function () {
+      assert.throws(
+        createServer.bind(null, { extensions: { 1: 'foo' as any } }),
+        /option extensions must have functions as values/,
+      );
+    });
+  });
+
+  describe('with strict option', function () {
+    describe('when undefined', function () {
+      it('should 400 on primitives', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/msgpack')
+          .send(hex('a4746f6269'))
+          .expect(400, '[entity.parse.failed] Unexpected MessagePack value at position 0', done);
+      });
+    });
+
+    describe('when false', function () {
+      it('should parse primitives', function (done) {
+        request(createServer({ strict: false }))
+          .post('/')
+          .set('Content-Type', 'application/msgpack')
+          .send(hex('a4746f6269'))
+          .expect(200, '"tobi"', done);
+      });
+    });
+  });
+
+  describe('with limit options', function () {
+    it('should 413 when nested too deep', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91919101'))
+        .expect(413, '[entity.depth.exceeded] MessagePack depth limit exceeded', done);
+    });
+
+    it('should report the path', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .set('X-Error-Property', 'path')
+        .send(hex('91919101'))
+        .expect(413, '$[0][0]', done);
+    });
+
+    it('should accept the depth limit', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('919101'))
+        .expect(200, '[[1]]', done);
+    });
+
+    it('should 413 when map has too many keys', function (done) {
+      request(createServer({ maxKeys: 1 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('82a16101a16202'))
+        .expect(413, '[entity.keys.exceeded] too many keys in MessagePack map', done);
+    });
+
+    it('should 413 when array has too many items', function (done) {
+      request(createServer({ maxArrayLength: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('93010203'))
+        .expect(413, '[entity.array.length.exceeded] too many items in MessagePack array', done);
+    });
+
+    it('should 413 when string is too long', function (done) {
+      request(createServer({ maxStringLength: 3 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('81a161a4746f6269'))
+        .expect(413, '[entity.string.length.exceeded] MessagePack string too long', done);
+    });
+
+    it('should report the path of the string', function (done) {
+      request(createServer({ maxStringLength: 3 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .set('X-Error-Property', 'path')
+        .send(hex('81a161a4746f6269'))
+        .expect(413, '$.a', done);
+    });
+
+    it('should apply maxStringLength to binary data', function (done) {
+      request(createServer({ maxStringLength: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91c403010203'))
+        .expect(413, '[entity.string.length.exceeded] MessagePack string too long', done);
+    });
+
+    it('should reject invalid limit', function () {
+      assert.throws(createServer.bind(null, { maxDepth: -1 }), /option maxDepth must be a non-negative number/);
+    });
+  });
+
+  describe('with default limits', function () {
+    it('should accept 100 nested arrays', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91'.repeat(100) + '01'))
+        .expect(200, '['.repeat(100) + '1' + ']'.repeat(100), done);
+    });
+
+    it('should 413 when nested deeper than 100', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91'.repeat(40000) + '01'))
+        .expect(413, '[entity.depth.exceeded] MessagePack depth limit exceeded', done);
+    });
+
+    it('should 413 when map has more than 10000 keys', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('df00002711'))
+        .expect(413, '[entity.keys.exceeded] too many keys in MessagePack map', done);
+    });
+
+    it('should 413 when array has more than 100000 items', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('dd000186a1'))
+        .expect(413, '[entity.array.length.exceeded] too many items in MessagePack array', done);
+    });
+
+    it('should 413 when string is longer than 1 MiB', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('91db00100001'))
+        .expect(413, '[entity.string.length.exceeded] MessagePack string too long', done);
+    });
+  });
+
+  describe('with emptyBody option', function () {
+    it('should return null when "null"', function (done) {
+      request(createServer({ emptyBody: 'null' }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .set('Content-Length', '0')
+        .expect(200, 'null', done);
+    });
+
+    it('should 400 when "error"', function (done) {
+      request(createServer({ emptyBody: 'error' }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .set('Content-Length', '0')
+        .expect(400, '[entity.empty] request body is empty', done);
+    });
+  });
+
+  describe('with limit option', function () {
+    it('should 413 when over limit', function (done) {
+      request(createServer({ limit: 4 }))
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('81a475736572a4746f6269'))
+        .expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with type option', function () {
+    it('should parse for custom type', function (done) {
+      request(createServer({ type: 'application/vnd.api+msgpack' }))
+        .post('/')
+        .set('Content-Type', 'application/vnd.api+msgpack')
+        .send(hex('9101'))
+        .expect(200, '[1]', done);
+    });
+
+    it('should ignore other types', function (done) {
+      request(server).post('/').set('Content-Type', 'application/json').send('[1]').expect(200, '{}', done);
+    });
+  });
+
+  describe('with verify option', function () {
+    it('should assert value if function', function () {
+      assert.throws(createServer.bind(null, { verify: 'lol' as any }), /TypeError: option verify must be function/);
+    });
+
+    it('should allow custom codes', function (done) {
+      const server = createServer({
+        verify: function (req, buf) {
+          if (buf[0] !== 0x91) return;
+          const err: any = new Error('no arrays');
+          err.status = 400;
+          throw err;
+        },
+      });
+
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .send(hex('9101'))
+        .expect(400, '[entity.verify.failed] no arrays', done);
+    });
+  });
+
+  describe('encoding', function () {
+    it('should parse gzip encoding', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .set('Content-Encoding', 'gzip')
+        .send(zlib.gzipSync(hex('81a475736572a4746f6269')))
+        .expect(200, '{"user":"tobi"}', done);
+    });
+
+    it('should 415 on unknown encoding', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/msgpack')
+        .set('Content-Encoding', 'nulls')
+        .send(hex('9101'))
+        .expect(415, '[encoding.unsupported] unsupported content encoding "nulls"', done);
+    });
+  });
+});
+
+function hex(str: string): any {
+  return Buffer.from(str, 'hex');
+}
+
+function createServer(opts?: MsgpackOptions) {
+  const msgpackParser = getMsgpackParser(opts);
+
+  return http.createServer(async function (req, res) {
+    try {
+      const body = await msgpackParser(req, req.headers);
+      res.end(
+        JSON.stringify(body, function (this: any, key: string, value: any) {
+          if (Buffer.isBuffer(this[key])) {
+            return 'buf:' + this[key].toString('hex');
+          }
+
+          return typeof value == 'bigint' ? `${value}n` : value;
+        }),
+      );
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end(
+        req.headers['x-error-property']
+          ? String(err[req.headers['x-error-property'] as string])
+          : '[' + err.type + '] ' + err.message,
+      );
+    }
+  });
+}
@@ -0,0 +1,105 @@
+import debugInit from 'debug';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Readable } from 'node:stream';
+import { hasBody } from '@ts-stack/type-is';
+
+import read from '../read.js';
+import type { BodyParser, BodyParserWithoutCheck, MsgpackOptions } from '../types.js';
+import { getCountLimit, getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
+import { MsgpackDecoder } from '../msgpack.js';
+
+const debug = debugInit('body-parser:msgpack');
+
+const MSGPACK_TYPES = ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'];
+
+/**
+ * Returns parser that only parses MessagePack bodies and only looks at requests where
+ * the `Content-Type` header matches the `type` option. This parser supports automatic
+ * inflation of `gzip`, `deflate` and `br` encodings.
+ *
+ * The parser returns the decoded request body in a Promise.
+ *
+ * @param withoutCheck If you set this parameter to `true`, the presence
+ * of the request body and the matching of headers will not be checked.
+ */
+export function getMsgpackParser(options?: MsgpackOptions, withoutCheck?: false | undefined): BodyParser;
+export function getMsgpackParser(options: MsgpackOptions, withoutCheck: true): BodyParserWithoutCheck;
+export function getMsgpackParser(
+  options?: MsgpackOptions,
+  withoutCheck?: boolean,
+): BodyParser | BodyParserWithoutCheck {
+  const opts = options || {};
+
+  const readOptions = getReadOptions(opts, '100kb');
+  const maxDepth = getCountLimit('maxDepth', opts.maxDepth, 100);
+  const maxKeys = getCountLimit('maxKeys', opts.maxKeys, 10000);
+  const maxArrayLength = getCountLimit('maxArrayLength', opts.maxArrayLength, 100000);
+  const maxStringLength = getCountLimit('maxStringLength', opts.maxStringLength, 1024 * 1024);
+  const extensions = opts.extensions || {};
+  const strict = opts.strict !== false;
+  const type = opts.type || MSGPACK_TYPES;
+  const verify = opts.verify || false;
+  const emptyBody = getEmptyBody(opts.emptyBody);
+
+  if (verify !== false && typeof verify != 'function') {
+    throw new TypeError('option verify must be function');
+  }
+
+  for (const key of Object.keys(extensions)) {
+    const extensionType = Number(key);
+
+    if (!Number.isInteger(extensionType) || extensionType < -128 || extensionType > 127) {
+      throw new TypeError('option extensions must have types from -128 to 127');
+    }
+
+    if (typeof extensions[extensionType] != 'function') {
+      throw new TypeError('option extensions must have functions as values');
+    }
+  }
+
+  // create the appropriate type checking function
+  const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
+
+  const decoder = new MsgpackDecoder({ maxDepth, maxKeys, maxArrayLength, maxStringLength, strict, extensions });
+
+  function parse(buf: Buffer) {
+    if (buf.length === 0) {
+      return emptyBody();
+    }
+
+    debug('decode msgpack');
+    return decoder.decode(buf);
+  }
+
+  function msgpackParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    return read(req, headers, parse, debug, {
+      ...readOptions,
+      encoding: null,
+      signal,
+      verify,
+    });
+  }
+
+  if (withoutCheck) {
+    msgpackParserWithoutCheck.shouldParse = shouldParse;
+    return msgpackParserWithoutCheck as BodyParserWithoutCheck;
+  } else {
+    return function msgpackParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+      // skip requests without bodies
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return new Promise((resolve) => resolve(emptyBody()));
+      }
+
+      debug(`content-type ${headers['content-type']}`);
+
+      // determine if request should be parsed
+      if (!shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve({});
+      }
+
+      return msgpackParserWithoutCheck(req, headers, signal);
+    } as BodyParser;
+  }
+}
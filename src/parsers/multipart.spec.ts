@@ -0,0 +1,759 @@
+import assert from 'node:assert';
+import fs from 'node:fs';
+import http, { IncomingHttpHeaders, Server } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import { Buffer } from 'safe-buffer';
+import request from 'supertest';
+
+import { getMultipartParser } from './multipart.js';
+import { DiskStorage, MemoryStorage } from '../multipart-storage.js';
+import type { MultipartBody, MultipartFile, MultipartOptions, StorageEngine } from '../types.js';
+
+const BOUNDARY = 'foo';
+
+describe('multipart()', function () {
+  let server: Server;
+  beforeAll(function () {
+    server = createServer();
+  });
+
+  it('should parse multipart/form-data', function (done) {
+    request(server)
+      .post('/')
+      .field('user', 'tobi')
+      .field('pet', 'loki')
+      .expect(200, '{"fields":{"user":"tobi","pet":"loki"},"files":[]}', done);
+  });
+
+  it('should parse files', function (done) {
+    request(server)
+      .post('/')
+      .field('user', 'tobi')
+      .attach('avatar', Buffer.from('the user is tobi') as any, { filename: 'tobi.txt', contentType: 'text/plain' })
+      .expect(
+        200,
+        '{"fields":{"user":"tobi"},"files":[["avatar","tobi.txt","text/plain",16,"the user is tobi"]]}',
+        done,
+      );
+  });
+
+  it('should collect repeated fields into an array', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write(multipartBody([field('pet', 'loki'), field('pet', 'tobi'), field('pet', 'jane')]));
+    test.expect(200, '{"fields":{"pet":["loki","tobi","jane"]},"files":[]}', done);
+  });
+
+  it('should parse a body split across many chunks', function (done) {
+    const body = Buffer.from(multipartBody([field('user', 'tobi'), file('doc', 'a.txt', 'abcdefghij')]));
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    for (let i = 0; i < body.length; i++) {
+      test.write(body.slice(i, i + 1) as any);
+    }
+    test.expect(
+      200,
+      '{"fields":{"user":"tobi"},"files":[["doc","a.txt","application/octet-stream",10,"abcdefghij"]]}',
+      done,
+    );
+  });
+
+  it('should ignore preamble and epilogue', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write('this is the preamble\r\n' + multipartBody([field('user', 'tobi')]) + 'this is the epilogue');
+    test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+  });
+
+  it('should keep line breaks in values', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write(multipartBody([field('text', 'line 1\r\n--line 2\r\n')]));
+    test.expect(200, '{"fields":{"text":"line 1\\r\\n--line 2\\r\\n"},"files":[]}', done);
+  });
+
+  it('should parse extended filename', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write(
+      multipartBody([
+        'Content-Disposition: form-data; name="doc"; filename="a.txt"; filename*=UTF-8\'\'%E2%82%AC.txt\r\n\r\nabc',
+      ]),
+    );
+    test.expect(200, '{"fields":{},"files":[["doc","€.txt","application/octet-stream",3,"abc"]]}', done);
+  });
+
+  it('should handle empty form', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write('--' + BOUNDARY + '--\r\n');
+    test.expect(200, '{"fields":{},"files":[]}', done);
+  });
+
+  it('should 400 when boundary is missing', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data');
+    test.write(multipartBody([field('user', 'tobi')]));
+    test.expect(400, '[boundary.invalid] missing or invalid multipart boundary', done);
+  });
+
+  it('should 400 when body is incomplete', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write('--' + BOUNDARY + '\r\nContent-Disposition: form-data; name="user"\r\n\r\ntobi');
+    test.expect(400, '[entity.parse.failed] unexpected end of multipart body', done);
+  });
+
+  it('should 400 when content-disposition is missing', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write(multipartBody(['Content-Type: text/plain\r\n\r\ntobi']));
+    test.expect(400, '[entity.parse.failed] missing form-data content disposition of a part', done);
+  });
+
+  it('should 400 when invalid content-length', function (done) {
+    const multipartParser = getMultipartParser();
+    const server = createServer(function (req: any, headers: any) {
+      headers['content-length'] = '20'; // bad length
+      return multipartParser(req, headers);
+    });
+
+    const test = request(server).post('/');
+    test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+    test.write(multipartBody([field('user', 'tobi')]));
+    test.expect(400, /content length/, done);
+  });
+
+  it('should handle no message-body', function (done) {
+    request(server)
+      .get('/')
+      .set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY)
+      .unset('Transfer-Encoding')
+      .expect(200, '{}', done);
+  });
+
+  describe('with limit option', function () {
+    it('should 413 when over limit with Content-Length', function (done) {
+      const body = multipartBody([field('user', Buffer.alloc(1028, '.').toString())]);
+      const server = createServer({ limit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.set('Content-Length', String(Buffer.byteLength(body)));
+      test.write(body);
+      test.expect(413, /\[entity\.too\.large\]/, done);
+    });
+
+    it('should 413 when over limit with chunked encoding', function (done) {
+      const server = createServer({ limit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.set('Transfer-Encoding', 'chunked');
+      test.write(multipartBody([field('user', Buffer.alloc(1028, '.').toString())]));
+      test.expect(413, /\[entity\.too\.large\]/, done);
+    });
+
+    it('should not hang response', function (done) {
+      const server = createServer({ limit: '8kb' });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write('--' + BOUNDARY + '\r\nContent-Disposition: form-data; name="doc"; filename="a.txt"\r\n\r\n');
+      test.write(Buffer.alloc(10240, '.') as any);
+      test.write(Buffer.alloc(10240, '.') as any);
+      test.write(Buffer.alloc(10240, '.') as any);
+      test.expect(413, done);
+    });
+  });
+
+  describe('with fieldSizeLimit option', function () {
+    it('should 413 when a field is over limit', function (done) {
+      const server = createServer({ fieldSizeLimit: 4 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([field('user', 'tobi'), field('pet', 'loki!')]));
+      test.expect(413, '[field.too.large] field value too large', done);
+    });
+
+    it('should not apply to files', function (done) {
+      const server = createServer({ fieldSizeLimit: 4 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', 'abcdefghij')]));
+      test.expect(200, '{"fields":{},"files":[["doc","a.txt","application/octet-stream",10,"abcdefghij"]]}', done);
+    });
+  });
+
+  describe('with fileSizeLimit option', function () {
+    it('should 413 when a file is over limit', function (done) {
+      const server = createServer({ fileSizeLimit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', Buffer.alloc(1025, '.').toString())]));
+      test.expect(413, '[file.too.large] file too large', done);
+    });
+
+    it('should include field name on error object', function (done) {
+      const server = createServer({ fileSizeLimit: 1 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.set('X-Error-Property', 'field');
+      test.write(multipartBody([file('doc', 'a.txt', 'abc')]));
+      test.expect(413, 'doc', done);
+    });
+  });
+
+  describe('with fieldLimit option', function () {
+    it('should reject NaN', function () {
+      assert.throws(
+        createServer.bind(null, { fieldLimit: NaN }),
+        /TypeError: option fieldLimit must be a non-negative number/,
+      );
+    });
+
+    it('should 413 if over limit', function (done) {
+      const server = createServer({ fieldLimit: 2 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([field('a', '1'), field('b', '2'), field('c', '3')]));
+      test.expect(413, '[fields.too.many] too many fields', done);
+    });
+
+    it('should work when at the limit', function (done) {
+      const server = createServer({ fieldLimit: 2 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([field('a', '1'), field('b', '2'), file('c', 'c.txt', '3')]));
+      test.expect(200, '{"fields":{"a":"1","b":"2"},"files":[["c","c.txt","application/octet-stream",1,"3"]]}', done);
+    });
+  });
+
+  describe('with fileLimit option', function () {
+    it('should 413 if over limit', function (done) {
+      const server = createServer({ fileLimit: 1 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('a', 'a.txt', '1'), file('b', 'b.txt', '2')]));
+      test.expect(413, '[files.too.many] too many files', done);
+    });
+  });
+
+  describe('with storage option', function () {
+    let directory: string;
+    beforeEach(function () {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'body-parser-'));
+    });
+
+    afterEach(function () {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should assert value is storage engine', function () {
+      assert.throws(
+        createServer.bind(null, { storage: {} as any }),
+        /TypeError: option storage must be a storage engine/,
+      );
+    });
+
+    it('should store files in memory by default', function (done) {
+      const server = createServer({ storage: new MemoryStorage() });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', 'abc')]));
+      test.expect(200, '{"fields":{},"files":[["doc","a.txt","application/octet-stream",3,"abc"]]}', done);
+    });
+
+    it('should save files to a directory', function (done) {
+      const multipartParser = getMultipartParser({ storage: new DiskStorage({ directory }) });
+      const server = createServer(async function (req: any, headers: any) {
+        const body: MultipartBody = await multipartParser(req, headers);
+        return body.files.map((file) => [path.dirname(file.path!) === directory, fs.readFileSync(file.path!, 'utf-8')]);
+      });
+
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('a', 'a.txt', 'abc'), field('user', 'tobi'), file('b', 'b.txt', 'def')]));
+      test.expect(200, '[[true,"abc"],[true,"def"]]', done);
+    });
+
+    it('should save large files to a directory', function (done) {
+      const content = Buffer.alloc(1024 * 1024, '.').toString();
+      const multipartParser = getMultipartParser({ storage: new DiskStorage({ directory }), limit: '2mb' });
+      const server = createServer(async function (req: any, headers: any) {
+        const body: MultipartBody = await multipartParser(req, headers);
+        return [body.files[0].size, fs.statSync(body.files[0].path!).size];
+      });
+
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('a', 'a.txt', content)]));
+      test.expect(200, '[1048576,1048576]', done);
+    });
+
+    it('should remove saved files when parsing fails', function (done) {
+      const server = createServer({ storage: new DiskStorage({ directory }), fileLimit: 1 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('a', 'a.txt', 'abc'), file('b', 'b.txt', 'def')]));
+      test.expect(413, '[files.too.many] too many files');
+      test.end(function (err) {
+        if (err) return done(err);
+        assert.strictEqual(fs.readdirSync(directory).length, 0);
+        done();
+      });
+    });
+
+    it('should remove partially saved file when parsing fails', function (done) {
+      const server = createServer({ storage: new DiskStorage({ directory }), fileSizeLimit: '10kb' });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('a', 'a.txt', 'abc'), file('b', 'b.txt', Buffer.alloc(20480, '.').toString())]));
+      test.expect(413, '[file.too.large] file too large');
+      test.end(function (err) {
+        if (err) return done(err);
+        assert.strictEqual(fs.readdirSync(directory).length, 0);
+        done();
+      });
+    });
+
+    it('should pass files to custom storage engine as readable', function (done) {
+      const storage: StorageEngine = {
+        async handleFile(file: MultipartFile, stream: Readable) {
+          let content = '';
+          for await (const chunk of stream) {
+            content += chunk.toString().toUpperCase();
+          }
+          return { buffer: Buffer.from(content) as any };
+        },
+        async removeFile() {},
+      };
+
+      const server = createServer({ storage });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', 'abc')]));
+      test.expect(200, '{"fields":{},"files":[["doc","a.txt","application/octet-stream",3,"ABC"]]}', done);
+    });
+
+    it('should 500 on error from storage engine', function (done) {
+      const removed: string[] = [];
+      const storage: StorageEngine = {
+        async handleFile(file: MultipartFile, stream: Readable) {
+          if (file.fieldname == 'b') throw new Error('no space left');
+          stream.resume();
+          await new Promise((resolve) => stream.once('end', resolve));
+        },
+        async removeFile(file: MultipartFile) {
+          removed.push(file.fieldname);
+        },
+      };
+
+      const server = createServer({ storage });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('a', 'a.txt', 'abc'), file('b', 'b.txt', 'def')]));
+      test.expect(500, '[storage.failed] no space left');
+      test.end(function (err) {
+        if (err) return done(err);
+        assert.strictEqual(removed.join(), 'a');
+        done();
+      });
+    });
+
+    it('should keep status of error from storage engine', function (done) {
+      const storage: StorageEngine = {
+        async handleFile() {
+          const err: any = new Error('only images are allowed');
+          err.status = 415;
+          err.type = 'file.type.unsupported';
+          throw err;
+        },
+        async removeFile() {},
+      };
+
+      const server = createServer({ storage });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', 'abc')]));
+      test.expect(415, '[file.type.unsupported] only images are allowed', done);
+    });
+  });
+
+  describe('with inflate option', function () {
+    describe('when false', function () {
+      beforeAll(function () {
+        server = createServer({ inflate: false });
+      });
+
+      it('should not accept content-encoding', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Encoding', 'gzip');
+        test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+        test.write(Buffer.from(GZIP_BODY, 'hex') as any);
+        test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
+      });
+    });
+
+    describe('when true', function () {
+      beforeAll(function () {
+        server = createServer({ inflate: true });
+      });
+
+      it('should accept content-encoding', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Encoding', 'gzip');
+        test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+        test.write(Buffer.from(GZIP_BODY, 'hex') as any);
+        test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+      });
+
+      it('should accept brotli content-encoding', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Encoding', 'br');
+        test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+        test.write(Buffer.from(BROTLI_BODY, 'hex') as any);
+        test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+      });
+    });
+  });
+
+  describe('with compressedLimit option', function () {
+    it('should 413 when compressed body over limit', function (done) {
+      const server = createServer({ compressedLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.set('Content-Length', String(GZIP_BOMB.length));
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.compressed.too.large] compressed request entity too large', done);
+    });
+
+    it('should accept body under limit', function (done) {
+      const server = createServer({ compressedLimit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(Buffer.from(GZIP_BODY, 'hex') as any);
+      test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+    });
+  });
+
+  describe('with decompressedLimit option', function () {
+    it('should 413 when inflated body over limit', function (done) {
+      const server = createServer({ decompressedLimit: '1kb', limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with inflationRatioLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { inflationRatioLimit: 0 }),
+        /TypeError: option inflationRatioLimit must be a positive number/,
+      );
+    });
+
+    it('should 413 when inflation ratio over limit', function (done) {
+      const server = createServer({ inflationRatioLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.inflation.ratio] request entity inflation ratio too large', done);
+    });
+  });
+
+  describe('with encodingLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { encodingLimit: 0 }),
+        /TypeError: option encodingLimit must be a positive number/,
+      );
+    });
+
+    it('should 415 when encodings over limit', function (done) {
+      const server = createServer({ encodingLimit: 1 });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip, br');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(Buffer.from(GZIP_BODY, 'hex') as any);
+      test.expect(415, '[encodings.too.many] too many content encodings', done);
+    });
+  });
+
+  describe('with timeout option', function () {
+    const headers = { 'content-type': 'multipart/form-data; boundary=' + BOUNDARY, 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(createServer.bind(null, { timeout: 0 }), /TypeError: option timeout must be a positive number/);
+    });
+
+    it('should 408 when body is not read in time', async function () {
+      const stream = createSlowStream(Infinity, 20);
+      const parser = getMultipartParser({ timeout: 100 });
+
+      await assert.rejects(parser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.timeout');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
+  describe('with minBytesPerSecond option', function () {
+    const headers = { 'content-type': 'multipart/form-data; boundary=' + BOUNDARY, 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { minBytesPerSecond: -1 }),
+        /TypeError: option minBytesPerSecond must be a positive number/,
+      );
+    });
+
+    it('should 408 when body is received too slowly', async function () {
+      const stream = createSlowStream(Infinity, 50);
+      const parser = getMultipartParser({ minBytesPerSecond: 100 });
+
+      await assert.rejects(parser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.too.slow');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
+  describe('with type option', function () {
+    describe('when "multipart/*"', function () {
+      beforeAll(function () {
+        server = createServer({ type: 'multipart/*' });
+      });
+
+      it('should parse for custom type', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Type', 'multipart/mixed; boundary=' + BOUNDARY);
+        test.write(multipartBody([field('user', 'tobi')]));
+        test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+      });
+    });
+
+    describe('when "multipart/form-data"', function () {
+      beforeAll(function () {
+        server = createServer();
+      });
+
+      it('should ignore other multipart types', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Type', 'multipart/mixed; boundary=' + BOUNDARY);
+        test.write(multipartBody([field('user', 'tobi')]));
+        test.expect(200, '{}', done);
+      });
+    });
+
+    describe('when a function', function () {
+      it('should parse when truthy value returned', function (done) {
+        const server = createServer({ type: accept });
+
+        function accept(headers: IncomingHttpHeaders) {
+          return headers['content-type'] === 'multipart/vnd.custom; boundary=' + BOUNDARY;
+        }
+
+        const test = request(server).post('/');
+        test.set('Content-Type', 'multipart/vnd.custom; boundary=' + BOUNDARY);
+        test.write(multipartBody([field('user', 'tobi')]));
+        test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+      });
+    });
+  });
+
+  describe('with verify option', function () {
+    it('should assert value is function', function () {
+      assert.throws(createServer.bind(null, { verify: 'lol' } as any), /TypeError: option verify must be function/);
+    });
+
+    it('should error from verify', function (done) {
+      const server = createServer({
+        verify: function (req, buf) {
+          if (buf.includes('tobi')) throw new Error('no tobi');
+        },
+      });
+
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([field('user', 'tobi')]));
+      test.expect(403, '[entity.verify.failed] no tobi', done);
+    });
+
+    it('should not store files of a body rejected by verify', function (done) {
+      const stored: string[] = [];
+      const storage: StorageEngine = {
+        async handleFile(file: MultipartFile, stream: Readable) {
+          stored.push(file.fieldname);
+          stream.resume();
+          await new Promise((resolve) => stream.once('end', resolve));
+        },
+        async removeFile() {},
+      };
+
+      const server = createServer({
+        storage,
+        verify: function (req, buf) {
+          if (buf.includes('tobi')) throw new Error('no tobi');
+        },
+      });
+
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', 'abc'), field('user', 'tobi')]));
+      test.expect(403, '[entity.verify.failed] no tobi');
+      test.end(function (err) {
+        if (err) return done(err);
+        assert.strictEqual(stored.length, 0);
+        done();
+      });
+    });
+
+    it('should store files of a body accepted by verify', function (done) {
+      const server = createServer({
+        verify: function (req, buf) {
+          if (buf.includes('tobi')) throw new Error('no tobi');
+        },
+      });
+
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([file('doc', 'a.txt', 'abc'), field('user', 'loki')]));
+      test.expect(200, '{"fields":{"user":"loki"},"files":[["doc","a.txt","application/octet-stream",3,"abc"]]}', done);
+    });
+
+    it('should get the raw body', function (done) {
+      const body = multipartBody([field('user', 'tobi')]);
+      const server = createServer({
+        verify: function (req, buf) {
+          if (buf.toString() !== body) throw new Error('bad body');
+        },
+      });
+
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(body);
+      test.expect(200, '{"fields":{"user":"tobi"},"files":[]}', done);
+    });
+  });
+
+  describe('charset', function () {
+    beforeAll(function () {
+      server = createServer();
+    });
+
+    it('should default to utf-8', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(multipartBody([field('name', '论')]));
+      test.expect(200, '{"fields":{"name":"论"},"files":[]}', done);
+    });
+
+    it('should use charset of the part', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(
+        Buffer.from(
+          multipartBody([
+            'Content-Disposition: form-data; name="name"\r\nContent-Type: text/plain; charset=koi8-r\r\n\r\n\xce\xc5\xd4',
+          ]),
+          'latin1',
+        ) as any,
+      );
+      test.expect(200, '{"fields":{"name":"нет"},"files":[]}', done);
+    });
+
+    it('should 415 on unknown charset of the part', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Type', 'multipart/form-data; boundary=' + BOUNDARY);
+      test.write(
+        multipartBody([
+          'Content-Disposition: form-data; name="name"\r\nContent-Type: text/plain; charset=bogus\r\n\r\nabc',
+        ]),
+      );
+      test.expect(415, '[charset.unsupported] unsupported charset "BOGUS"', done);
+    });
+  });
+});
+
+const GZIP_BOMB: any = zlib.gzipSync(Buffer.alloc(1024 * 1024) as any);
+
+const GZIP_BODY =
+  '1f8b080000000000000315cb310a80300c05d03d903b94eeff024a27bd48c51632345fda787ff1ed0fe8a4ca418fe681d3d6c36561f42d75ce81bb46dd93d7d14a7e579b59452578990afe0ba87c5d16301745000000';
+
+const BROTLI_BODY =
+  '1b4400a02c126cdb09e743b9ce6537087e5ab688a4b542430bdd6a302ba2b97e6b10db090e39603fb628f2cc330c1c7274a1da21ae491cc3a7a62031ef4881f146ee674200';
+
+function field(name: string, value: string) {
+  return `Content-Disposition: form-data; name="${name}"\r\n\r\n${value}`;
+}
+
+function file(name: string, filename: string, value: string) {
+  return `Content-Disposition: form-data; name="${name}"; filename="${filename}"\r\n\r\n${value}`;
+}
+
+function multipartBody(parts: string[]) {
+  return parts.map((part) => `--${BOUNDARY}\r\n${part}\r\n`).join('') + `--${BOUNDARY}--\r\n`;
+}
+
+type ParserCallback = (req: http.IncomingMessage, headers: IncomingHttpHeaders, res?: http.ServerResponse) => any;
+
+function createServer(optsOrCallback?: MultipartOptions | ParserCallback) {
+  const bodyParserOrCallback: any =
+    typeof optsOrCallback != 'function' ? getMultipartParser(optsOrCallback) : optsOrCallback;
+
+  return http.createServer(async function (req, res) {
+    try {
+      const body: MultipartBody = await bodyParserOrCallback(
+        req,
+        req.headers,
+        typeof optsOrCallback == 'function' ? res : undefined,
+      );
+      res.statusCode = 200;
+      if (!body.files) {
+        res.end(JSON.stringify(body));
+        return;
+      }
+
+      const files = body.files.map((file) => [
+        file.fieldname,
+        file.originalname,
+        file.mimetype,
+        file.size,
+        file.buffer!.toString(),
+      ]);
+      res.end(JSON.stringify({ fields: body.fields, files }));
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end(
+        req.headers['x-error-property']
+          ? err[req.headers['x-error-property'] as string]
+          : '[' + err.type + '] ' + err.message,
+      );
+    }
+  });
+}
+
+function createSlowStream(length: number, interval: number) {
+  let pushed = 0;
+
+  return new Readable({
+    read() {
+      if (pushed++ === length) {
+        this.push(null);
+      } else {
+        setTimeout(() => this.push('.'), interval);
+      }
+    },
+  });
+}
@@ -0,0 +1,364 @@
+import contentType from 'content-type';
+import createError from 'http-errors';
+import debugInit from 'debug';
+import iconv from 'iconv-lite';
+import type { IncomingHttpHeaders } from 'node:http';
+import { PassThrough, Readable } from 'node:stream';
+import { hasBody } from '@ts-stack/type-is';
+
+import read from '../read.js';
+import type {
+  BodyParser,
+  BodyParserWithoutCheck,
+  MultipartBody,
+  MultipartFile,
+  MultipartOptions,
+  StorageEngine,
+} from '../types.js';
+import { getCharset, getCountLimit, getReadOptions, getSizeLimit, getTypeChecker } from '../utils.js';
+import { isValidBoundary, MultipartStream, parseContentDisposition, PartHeaders } from '../multipart.js';
+import { MemoryStorage } from '../multipart-storage.js';
+
+const debug = debugInit('body-parser:multipart');
+
+/**
+ * Returns parser that only parses `multipart/form-data` bodies and only looks at requests
+ * where the `Content-Type` header matches the `type` option. The body is parsed as it
+ * arrives, and it supports automatic inflation of `gzip`, `deflate` and `br` encodings.
+ *
+ * The parser returns the request body in a Promise, that will contain the values of
+ * the non-file fields in the `fields` property, and the uploaded files in the `files` property.
+ *
+ * @param withoutCheck If you set this parameter to `true`, the presence
+ * of the request body and the matching of headers will not be checked.
+ */
+export function getMultipartParser(options?: MultipartOptions, withoutCheck?: false | undefined): BodyParser;
+export function getMultipartParser(options: MultipartOptions, withoutCheck: true): BodyParserWithoutCheck;
+export function getMultipartParser(
+  options?: MultipartOptions,
+  withoutCheck?: boolean,
+): BodyParser | BodyParserWithoutCheck {
+  const opts = options || {};
+
+  const defaultCharset = opts.defaultCharset || 'utf-8';
+  const readOptions = getReadOptions(opts, '1mb');
+  const fieldSizeLimit = getSizeLimit(opts.fieldSizeLimit, '100kb');
+  const fileSizeLimit = getSizeLimit(opts.fileSizeLimit, Infinity);
+  const fieldLimit = getCountLimit('fieldLimit', opts.fieldLimit, 1000);
+  const fileLimit = getCountLimit('fileLimit', opts.fileLimit, Infinity);
+  const storage = opts.storage || new MemoryStorage();
+  const type = opts.type || 'multipart/form-data';
+  const verify = opts.verify || false;
+
+  if (verify !== false && typeof verify != 'function') {
+    throw new TypeError('option verify must be function');
+  }
+
+  if (typeof storage.handleFile != 'function' || typeof storage.removeFile != 'function') {
+    throw new TypeError('option storage must be a storage engine');
+  }
+
+  // create the appropriate type checking function
+  const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
+
+  async function multipartParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    // assert boundary
+    let boundary = '';
+    try {
+      boundary = contentType.parse(headers['content-type'] || '').parameters.boundary || '';
+    } catch (e) {}
+
+    if (!isValidBoundary(boundary)) {
+      debug('invalid boundary');
+      throw createError(400, 'missing or invalid multipart boundary', {
+        type: 'boundary.invalid',
+      });
+    }
+
+    // assert charset
+    const charset = getCharset(headers) || defaultCharset;
+    assertCharset(charset);
+
+    const form = new MultipartForm(charset, storage, { fieldSizeLimit, fileSizeLimit, fieldLimit, fileLimit });
+    const multipart = new MultipartStream(boundary, form);
+
+    async function parse(buf: Buffer): Promise<MultipartBody> {
+      // a verified body is dispatched only after verify accepts it
+      if (verify) {
+        multipart.write(buf);
+      }
+
+      multipart.end();
+      debug('parsed %d fields and %d files', form.fieldCount, form.files.length);
+      await form.finish();
+      return { fields: form.fields, files: form.files };
+    }
+
+    function onData(chunk: Buffer) {
+      multipart.write(chunk);
+      return form.drain();
+    }
+
+    // read
+    try {
+      return await read(req, headers, parse, debug, {
+        ...readOptions,
+        encoding: null,
+        signal,
+        verify,
+        onData: verify ? undefined : onData,
+      });
+    } catch (err) {
+      // do not leave stored files of a rejected body
+      await form.cleanup(err);
+      throw err;
+    }
+  }
+
+  if (withoutCheck) {
+    multipartParserWithoutCheck.shouldParse = shouldParse;
+    return multipartParserWithoutCheck as BodyParserWithoutCheck;
+  } else {
+    return function multipartParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+      // skip requests without bodies
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return Promise.resolve({});
+      }
+
+      debug(`content-type ${headers['content-type']}`);
+
+      // determine if request should be parsed
+      if (!shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve({});
+      }
+
+      return multipartParserWithoutCheck(req, headers, signal);
+    } as BodyParser;
+  }
+}
+
+interface MultipartLimits {
+  fieldSizeLimit: number;
+  fileSizeLimit: number;
+  fieldLimit: number;
+  fileLimit: number;
+}
+
+/**
+ * Collects the fields of a form from the parts reported by `MultipartStream`,
+ * and passes the files to the storage engine.
+ */
+class MultipartForm {
+  fields: Record<string, string | string[]> = Object.create(null);
+  files: MultipartFile[] = [];
+  fieldCount = 0;
+
+  protected part: {
+    name: string;
+    charset: string;
+    size: number;
+    chunks: Buffer[];
+    file?: MultipartFile;
+    stream?: PassThrough;
+    upload?: Promise<MultipartFile>;
+  } | null = null;
+  protected uploads: Promise<MultipartFile>[] = [];
+  protected pending: Promise<unknown>[] = [];
+  protected error: any = null;
+
+  constructor(
+    protected charset: string,
+    protected storage: StorageEngine,
+    protected limits: MultipartLimits,
+  ) {}
+
+  onPartBegin = (headers: PartHeaders) => {
+    const disposition = parseContentDisposition(headers['content-disposition'] || '');
+    const name = disposition.parameters.name;
+
+    if (disposition.type !== 'form-data' || name === undefined) {
+      debug('invalid content-disposition');
+      throw createError(400, 'missing form-data content disposition of a part', {
+        type: 'entity.parse.failed',
+      });
+    }
+
+    const mimetype = headers['content-type'];
+    let charset = this.charset;
+
+    if (mimetype) {
+      charset = getCharset({ 'content-type': mimetype }) || charset;
+    }
+
+    this.part = { name, charset, size: 0, chunks: [] };
+
+    if (disposition.parameters.filename !== undefined) {
+      if (this.files.length === this.limits.fileLimit) {
+        debug('too many files');
+        throw createError(413, 'too many files', {
+          limit: this.limits.fileLimit,
+          type: 'files.too.many',
+        });
+      }
+
+      const file: MultipartFile = {
+        fieldname: name,
+        originalname: disposition.parameters.filename,
+        encoding: headers['content-transfer-encoding'] || '7bit',
+        mimetype: mimetype || 'application/octet-stream',
+        size: 0,
+      };
+
+      this.part.file = file;
+      this.part.stream = new PassThrough();
+      this.part.upload = this.store(file, this.part.stream);
+      this.files.push(file);
+    } else {
+      if (this.fieldCount === this.limits.fieldLimit) {
+        debug('too many fields');
+        throw createError(413, 'too many fields', {
+          limit: this.limits.fieldLimit,
+          type: 'fields.too.many',
+        });
+      }
+
+      assertCharset(charset);
+    }
+  };
+
+  onPartData = (chunk: Buffer) => {
+    const part = this.part!;
+    part.size += chunk.length;
+
+    if (this.error) {
+      throw this.error;
+    } else if (part.file && part.size > this.limits.fileSizeLimit) {
+      debug('file too large');
+      throw createError(413, 'file too large', {
+        field: part.name,
+        limit: this.limits.fileSizeLimit,
+        type: 'file.too.large',
+      });
+    } else if (!part.file && part.size > this.limits.fieldSizeLimit) {
+      debug('field too large');
+      throw createError(413, 'field value too large', {
+        field: part.name,
+        limit: this.limits.fieldSizeLimit,
+        type: 'field.too.large',
+      });
+    }
+
+    if (!part.stream) {
+      part.chunks.push(chunk);
+    } else if (!part.stream.write(chunk)) {
+      // wait until the storage engine reads the file further
+      const stream = part.stream;
+      const drain = new Promise((resolve) => {
+        stream.once('drain', resolve);
+        stream.once('close', resolve);
+      });
+      this.pending.push(Promise.race([drain, part.upload]));
+    }
+  };
+
+  onPartEnd = () => {
+    const part = this.part!;
+    this.part = null;
+
+    if (part.stream) {
+      part.file!.size = part.size;
+      part.stream.end();
+      return;
+    }
+
+    const value = iconv.decode(Buffer.concat(part.chunks), part.charset);
+    const prev = this.fields[part.name];
+    this.fieldCount++;
+
+    if (prev === undefined) {
+      this.fields[part.name] = value;
+    } else if (Array.isArray(prev)) {
+      prev.push(value);
+    } else {
+      this.fields[part.name] = [prev, value];
+    }
+  };
+
+  /**
+   * Returns a promise that is settled when the storage engine is ready for more data,
+   * or `undefined` if it is ready now.
+   */
+  drain() {
+    if (!this.pending.length) {
+      return undefined;
+    }
+
+    const pending = this.pending;
+    this.pending = [];
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * Wait until all the files are stored.
+   */
+  async finish() {
+    await Promise.all(this.uploads);
+    debug('stored %d files', this.files.length);
+  }
+
+  /**
+   * Abort storing the files and remove the stored ones.
+   */
+  async cleanup(err: any) {
+    this.part?.stream?.destroy(err);
+    const results = await Promise.allSettled(this.uploads);
+
+    for (const result of results) {
+      if (result.status == 'fulfilled') {
+        try {
+          await this.storage.removeFile(result.value);
+        } catch (e: any) {
+          debug('error removing file: %s', e.message);
+        }
+      }
+    }
+
+    debug('removed %d files', results.filter((result) => result.status == 'fulfilled').length);
+  }
+
+  protected store(file: MultipartFile, stream: PassThrough) {
+    debug('store file "%s"', file.originalname);
+    const upload = this.storage.handleFile(file, stream).then(
+      (result) => Object.assign(file, result),
+      (err: any) => {
+        stream.destroy();
+        throw createError(500, err, {
+          type: err.type || 'storage.failed',
+        });
+      },
+    );
+
+    // stop reading the body on the first storage error
+    upload.catch((err) => {
+      this.error = this.error || err;
+    });
+
+    this.uploads.push(upload);
+    return upload;
+  }
+}
+
+/**
+ * Assert that a charset is supported.
+ */
+function assertCharset(charset: string) {
+  if (!iconv.encodingExists(charset)) {
+    debug('invalid charset');
+    throw createError(415, 'unsupported charset "' + charset.toUpperCase() + '"', {
+      charset,
+      type: 'charset.unsupported',
+    });
+  }
+}
@@ -0,0 +1,296 @@
+import assert from 'node:assert';
+import http, { Server } from 'node:http';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import { Buffer } from 'safe-buffer';
+import request from 'supertest';
+
+import { getNdjsonParser } from './ndjson.js';
+import type { NdjsonOptions } from '../types.js';
+
+describe('ndjson()', function () {
+  let server: Server;
+  beforeAll(function () {
+    server = createServer();
+  });
+
+  it('should parse application/x-ndjson', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('{"user":"tobi"}\n{"user":"loki"}\n')
+      .expect(200, '[{"user":"tobi"},{"user":"loki"}]', done);
+  });
+
+  it('should parse last record without line break', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/jsonl')
+      .send('{"user":"tobi"}\r\n[1,2]\r\n"loki"')
+      .expect(200, '[{"user":"tobi"},[1,2],"loki"]', done);
+  });
+
+  it('should skip empty lines', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('\n1\n\n  \n2\n')
+      .expect(200, '[1,2]', done);
+  });
+
+  it('should parse application/json-seq', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json-seq')
+      .send('\x1e{"user":"tobi"}\n\x1e{\n"user":"loki"\n}\n')
+      .expect(200, '[{"user":"tobi"},{"user":"loki"}]', done);
+  });
+
+  it('should handle empty body', function (done) {
+    request(server).post('/').set('Content-Type', 'application/x-ndjson').send('').expect(200, '[]', done);
+  });
+
+  it('should not parse other types', function (done) {
+    request(server).post('/').set('Content-Type', 'application/json').send('{}').expect(200, '[]', done);
+  });
+
+  it('should parse records split across chunks', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'application/x-ndjson');
+    test.write('{"name":');
+    test.write('"论"}\n{"na');
+    test.write(Buffer.from([0x6d, 0x65, 0x22, 0x3a, 0x22, 0xe8, 0xae]) as any);
+    test.write(Buffer.from([0xba, 0x22, 0x7d]) as any);
+    test.expect(200, '[{"name":"论"},{"name":"论"}]', done);
+  });
+
+  it('should 400 with the line of invalid record', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('X-Error-Property', 'line')
+      .send('1\n\n2\n{"user"\n3\n')
+      .expect(400, '4', done);
+  });
+
+  it('should 400 with the record number of invalid record', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json-seq')
+      .set('X-Error-Property', 'record')
+      .send('\x1e1\n\x1e2\n\x1e{"user"\n')
+      .expect(400, '3', done);
+  });
+
+  it('should report the line in the error message', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('1\n{"user"\n')
+      .expect(400, /^\[entity\.parse\.failed\] .+ \(line 2\)$/, done);
+  });
+
+  it('should 415 for unsupported charset', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson; charset=koi8-r')
+      .send('1\n')
+      .expect(415, '[charset.unsupported] unsupported charset "KOI8-R"', done);
+  });
+
+  it('should parse utf-16', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Type', 'application/x-ndjson; charset=utf-16');
+    test.write(Buffer.from('feff0031000a0032000a', 'hex') as any);
+    test.expect(200, '[1,2]', done);
+  });
+
+  it('should inflate gzip', function (done) {
+    const test = request(server).post('/');
+    test.set('Content-Encoding', 'gzip');
+    test.set('Content-Type', 'application/x-ndjson');
+    test.write(zlib.gzipSync('{"user":"tobi"}\n{"user":"loki"}\n') as any);
+    test.expect(200, '[{"user":"tobi"},{"user":"loki"}]', done);
+  });
+
+  it('should 415 when inflate is false', function (done) {
+    const server = createServer({ inflate: false });
+    const test = request(server).post('/');
+    test.set('Content-Encoding', 'gzip');
+    test.set('Content-Type', 'application/x-ndjson');
+    test.write(zlib.gzipSync('1\n') as any);
+    test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
+  });
+
+  describe('with recordLimit option', function () {
+    it('should 413 when a record is too large', function (done) {
+      const server = createServer({ recordLimit: 10 });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('"short"\n"much too long"\n')
+        .expect(413, '[record.too.large] record too large (line 2)', done);
+    });
+
+    it('should 413 when a record is split across chunks', function (done) {
+      const server = createServer({ recordLimit: 10 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'application/json-seq');
+      test.set('X-Error-Property', 'record');
+      test.write('\x1e"short"\n\x1e"much');
+      test.write(' too long"\n');
+      test.expect(413, '2', done);
+    });
+
+    it('should accept a record of the limit', function (done) {
+      const server = createServer({ recordLimit: 7 });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('"short"\n"short"')
+        .expect(200, '["short","short"]', done);
+    });
+
+    it('should reject invalid recordLimit', function () {
+      assert.throws(
+        () => getNdjsonParser({ recordLimit: -1 }),
+        /TypeError: option recordLimit must be a positive number/,
+      );
+    });
+  });
+
+  describe('with limit option', function () {
+    it('should 413 when the body is too large', function (done) {
+      const server = createServer({ limit: 10 });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('1\n2\n3\n4\n5\n6\n')
+        .expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with reviver option', function () {
+    it('should revive every record', function (done) {
+      const server = createServer({
+        reviver(key, value) {
+          return key === 'user' ? value.toUpperCase() : value;
+        },
+      });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('{"user":"tobi"}\n{"user":"loki"}\n')
+        .expect(200, '[{"user":"TOBI"},{"user":"LOKI"}]', done);
+    });
+  });
+
+  describe('with type option', function () {
+    it('should parse the given type', function (done) {
+      const server = createServer({ type: 'application/vnd.events' });
+      request(server).post('/').set('Content-Type', 'application/vnd.events').send('1\n2\n').expect(200, '[1,2]', done);
+    });
+  });
+
+  describe('iteration', function () {
+    const headers = { 'content-type': 'application/x-ndjson', 'transfer-encoding': 'chunked' };
+
+    it('should yield records before the body has been read', async function () {
+      // the body is much larger than what the stream buffers by itself
+      let pushed = 0;
+      let pushedBytes = 0;
+      const req = new Readable({
+        read() {
+          if (pushedBytes < this.readableHighWaterMark * 8) {
+            const line = `${pushed++}\n`;
+            pushedBytes += line.length;
+            this.push(line);
+          } else {
+            this.push(null);
+          }
+        },
+      });
+
+      const records: AsyncIterable<number> = await getNdjsonParser()(req, headers);
+      const values: number[] = [];
+
+      for await (const value of records) {
+        values.push(value);
+        if (values.length == 3) break;
+      }
+
+      assert.strictEqual(values.join(), '0,1,2');
+      assert.ok(pushedBytes < req.readableHighWaterMark * 8);
+    });
+
+    it('should cancel reading when the iteration is stopped', async function () {
+      const req = new Readable({ read() {} });
+      req.push('1\n2\n');
+
+      const records: AsyncIterable<number> = await getNdjsonParser()(req, headers);
+
+      for await (const value of records) {
+        assert.strictEqual(value, 1);
+        break;
+      }
+
+      assert.strictEqual(req.listenerCount('data'), 0);
+    });
+
+    it('should throw errors after the first records', async function () {
+      const req = Readable.from(['1\n', '2\n', '{\n']);
+      const records: AsyncIterable<number> = await getNdjsonParser()(req, headers);
+      const values: number[] = [];
+
+      await assert.rejects(
+        async () => {
+          for await (const value of records) {
+            values.push(value);
+          }
+        },
+        (err: any) => {
+          assert.strictEqual(err.status, 400);
+          assert.strictEqual(err.type, 'entity.parse.failed');
+          assert.strictEqual(err.line, 3);
+          assert.strictEqual(err.record, 3);
+          return true;
+        },
+      );
+      assert.strictEqual(values.join(), '1,2');
+    });
+
+    it('should reject when signal is aborted', async function () {
+      const req = new Readable({ read() {} });
+
+      await assert.rejects(getNdjsonParser()(req, headers, AbortSignal.abort()), (err: any) => {
+        assert.strictEqual(err.name, 'AbortError');
+        return true;
+      });
+    });
+  });
+});
+
+function createServer(opts?: NdjsonOptions) {
+  const ndjsonParser = getNdjsonParser(opts);
+
+  return http.createServer(async function (req, res) {
+    try {
+      const records: AsyncIterable<any> = await ndjsonParser(req, req.headers);
+      const values: any[] = [];
+
+      for await (const value of records) {
+        values.push(value);
+      }
+
+      res.statusCode = 200;
+      res.end(JSON.stringify(values));
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end(
+        req.headers['x-error-property']
+          ? String(err[req.headers['x-error-property'] as string])
+          : '[' + err.type + '] ' + err.message,
+      );
+    }
+  });
+}
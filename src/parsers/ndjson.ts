@@ -0,0 +1,117 @@
+import bytes from 'bytes';
+import createError from 'http-errors';
+import debugInit from 'debug';
+import iconv from 'iconv-lite';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Readable } from 'node:stream';
+import { hasBody, typeIs } from '@ts-stack/type-is';
+
+import readIterable, { getEmptyIterable } from '../read-iterable.js';
+import type { BodyParser, BodyParserWithoutCheck, NdjsonOptions } from '../types.js';
+import { getCharset, getReadOptions, getTypeChecker } from '../utils.js';
+import { NdjsonStream } from '../ndjson.js';
+
+const debug = debugInit('body-parser:ndjson');
+
+/**
+ * Returns parser that only parses newline-delimited JSON (NDJSON, JSON Lines) and
+ * JSON text sequences (RFC 7464), and only looks at requests where the `Content-Type`
+ * header matches the `type` option. This parser accepts any Unicode encoding of the body
+ * and supports automatic inflation of `gzip`, `deflate` and `br` encodings.
+ *
+ * The body is not buffered: the parser returns in a Promise an `AsyncIterable` of the
+ * parsed records, that are read from the request as they are iterated:
+ *
+ * ```ts
+const records = await ndjsonParser<AsyncIterable<Event>>(req, req.headers);
+
+for await (const event of records) {
+  // ...
+}
+ * ```
+ *
+ * The Promise is rejected if the body cannot be read at all, e.g. for an unsupported
+ * charset or content encoding; errors after the first records are thrown by the iteration.
+ * Stopping the iteration early cancels reading of the request.
+ *
+ * @param withoutCheck If you set this parameter to `true`, the presence
+ * of the request body and the matching of headers will not be checked.
+ */
+export function getNdjsonParser(options?: NdjsonOptions, withoutCheck?: false | undefined): BodyParser;
+export function getNdjsonParser(options: NdjsonOptions, withoutCheck: true): BodyParserWithoutCheck;
+export function getNdjsonParser(options?: NdjsonOptions, withoutCheck?: boolean): BodyParser | BodyParserWithoutCheck {
+  const opts = options || {};
+
+  const readOptions = getReadOptions(opts, '100mb');
+  const recordLimit = typeof opts.recordLimit != 'number' ? bytes.parse(opts.recordLimit || '100kb') : opts.recordLimit;
+  const reviver = opts.reviver;
+  const type = opts.type || [
+    'application/x-ndjson',
+    'application/jsonl',
+    'application/x-jsonlines',
+    'application/json-seq',
+  ];
+
+  if (isNaN(recordLimit) || recordLimit <= 0) {
+    throw new TypeError('option recordLimit must be a positive number');
+  }
+
+  // create the appropriate type checking function
+  const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
+
+  async function ndjsonParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    // assert charset per RFC 7159 sec 8.1
+    const charset = getCharset(headers) || 'utf-8';
+    if (charset.slice(0, 4) !== 'utf-' || !iconv.encodingExists(charset)) {
+      debug('invalid charset');
+      throw createError(415, 'unsupported charset "' + charset.toUpperCase() + '"', {
+        charset,
+        type: 'charset.unsupported',
+      });
+    }
+
+    const sequence = Boolean(typeIs(headers, ['application/json-seq']));
+
+    function getStream(push: (value: any) => void) {
+      const stream = new NdjsonStream({ sequence, recordLimit, reviver }, push);
+
+      return {
+        write: (str: string) => stream.write(str),
+        end() {
+          stream.end();
+          debug('parsed %d records', stream.records);
+        },
+      };
+    }
+
+    // read
+    return readIterable(req, headers, getStream, debug, {
+      ...readOptions,
+      encoding: charset,
+      signal,
+    });
+  }
+
+  if (withoutCheck) {
+    ndjsonParserWithoutCheck.shouldParse = shouldParse;
+    return ndjsonParserWithoutCheck as BodyParserWithoutCheck;
+  } else {
+    return function ndjsonParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+      // skip requests without bodies
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return Promise.resolve(getEmptyIterable());
+      }
+
+      debug(`content-type ${headers['content-type']}`);
+
+      // determine if request should be parsed
+      if (!shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve(getEmptyIterable());
+      }
+
+      return ndjsonParserWithoutCheck(req, headers, signal);
+    } as BodyParser;
+  }
+}
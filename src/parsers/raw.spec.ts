@@ -1,12 +1,17 @@
 import assert from 'node:assert';
 import asyncHooks from 'node:async_hooks';
 import http, { IncomingHttpHeaders, Server } from 'node:http';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
 import { Buffer } from 'safe-buffer';
 import request from 'supertest';
 
 import { getRawParser } from './raw.js';
 import type { RawOptions } from '../types.js';
 
+const HAS_ZSTD = typeof (zlib as any).createZstdDecompress == 'function';
+const GZIP_BOMB: any = zlib.gzipSync(Buffer.alloc(1024 * 1024) as any);
+
 describe('raw()', function () {
   let server: Server;
   beforeAll(function () {
@@ -75,6 +80,28 @@ describe('raw()', function () {
       .expect(500, '[stream.not.readable] stream is not readable', done);
   });
 
+  describe('with emptyBody option', function () {
+    it('should return empty buffer for empty body by default', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/octet-stream')
+        .send('')
+        .expect(200, 'buf:', done);
+    });
+
+    it('should return {} for empty body when "object"', function (done) {
+      request(createServer({ emptyBody: 'object' }))
+        .post('/')
+        .set('Content-Type', 'application/octet-stream')
+        .send('')
+        .expect(200, '{}', done);
+    });
+
+    it('should return undefined for request without body when "undefined"', async function () {
+      assert.strictEqual(await getRawParser({ emptyBody: 'undefined' })(null as any, {}), undefined);
+    });
+  });
+
   describe('with limit option', function () {
     it('should 413 when over limit with Content-Length', function (done) {
       const buf: any = Buffer.alloc(1028, '.');
@@ -105,6 +132,15 @@ describe('raw()', function () {
       test.expect(413, done);
     });
 
+    it('should 413 when brotli inflated body over limit', function (done) {
+      const server = createServer({ limit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'br');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('1b0304f8255ca2b140a037', 'hex') as any);
+      test.expect(413, done);
+    });
+
     it('should accept number of bytes', function (done) {
       const buf: any = Buffer.alloc(1028, '.');
       const server = createServer({ limit: 1024 });
@@ -148,6 +184,234 @@ describe('raw()', function () {
     });
   });
 
+  describe('with compressedLimit option', function () {
+    it('should 413 when compressed body over limit with Content-Length', function (done) {
+      const server = createServer({ compressedLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.set('Content-Length', String(GZIP_BOMB.length));
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.compressed.too.large] compressed request entity too large', done);
+    });
+
+    it('should 413 when compressed body over limit with chunked encoding', function (done) {
+      const server = createServer({ compressedLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.set('Transfer-Encoding', 'chunked');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.compressed.too.large] compressed request entity too large', done);
+    });
+
+    it('should accept a string', function (done) {
+      const server = createServer({ compressedLimit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('1f8b080000000000000bcb4bcc4db57db16e170099a4bad608000000', 'hex') as any);
+      test.expect(200, 'buf:6e616d653de8aeba', done);
+    });
+
+    it('should not apply to bodies without content-encoding', function (done) {
+      const server = createServer({ compressedLimit: 4 });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('the user') as any);
+      test.expect(200, 'buf:7468652075736572', done);
+    });
+  });
+
+  describe('with decompressedLimit option', function () {
+    it('should 413 when inflated body over limit', function (done) {
+      const server = createServer({ decompressedLimit: '1kb', limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.too.large] request entity too large', done);
+    });
+
+    it('should be used instead of limit for inflated body', function (done) {
+      const server = createServer({ decompressedLimit: '4kb', limit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(zlib.gzipSync(Buffer.alloc(2048) as any) as any);
+      test.expect(200, 'buf:' + '00'.repeat(2048), done);
+    });
+
+    it('should not apply to bodies without content-encoding', function (done) {
+      const server = createServer({ decompressedLimit: '4kb', limit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.alloc(2048) as any);
+      test.expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with inflationRatioLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { inflationRatioLimit: 0 }),
+        /TypeError: option inflationRatioLimit must be a positive number/,
+      );
+    });
+
+    it('should 413 when inflation ratio over limit', function (done) {
+      const server = createServer({ inflationRatioLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.inflation.ratio] request entity inflation ratio too large', done);
+    });
+
+    it('should accept body under ratio', function (done) {
+      const server = createServer({ inflationRatioLimit: 10 });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('1f8b080000000000000bcb4bcc4db57db16e170099a4bad608000000', 'hex') as any);
+      test.expect(200, 'buf:6e616d653de8aeba', done);
+    });
+
+    it('should 413 for stacked encodings', function (done) {
+      const server = createServer({ inflationRatioLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip, br');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(zlib.brotliCompressSync(GZIP_BOMB) as any);
+      test.expect(413, '[entity.inflation.ratio] request entity inflation ratio too large', done);
+    });
+  });
+
+  describe('with timeout option', function () {
+    const headers = { 'content-type': 'application/octet-stream', 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(createServer.bind(null, { timeout: 0 }), /TypeError: option timeout must be a positive number/);
+    });
+
+    it('should 408 when body is not read in time', async function () {
+      const stream = createSlowStream(Infinity, 20);
+      const rawParser = getRawParser({ timeout: 100 });
+
+      await assert.rejects(rawParser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.timeout');
+        assert.strictEqual(err.message, 'request timeout');
+        assert.ok(err.received > 0);
+        return true;
+      });
+      assert.ok(stream.isPaused());
+      stream.destroy();
+    });
+
+    it('should accept body read in time', async function () {
+      const stream = createSlowStream(3, 10);
+      const rawParser = getRawParser({ timeout: 1000 });
+      const body = await rawParser(stream, headers);
+      assert.strictEqual(body.toString(), '...');
+    });
+  });
+
+  describe('with minBytesPerSecond option', function () {
+    const headers = { 'content-type': 'application/octet-stream', 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { minBytesPerSecond: -1 }),
+        /TypeError: option minBytesPerSecond must be a positive number/,
+      );
+    });
+
+    it('should 408 when body is received too slowly', async function () {
+      const stream = createSlowStream(Infinity, 50);
+      const rawParser = getRawParser({ minBytesPerSecond: 100 });
+
+      await assert.rejects(rawParser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.too.slow');
+        assert.strictEqual(err.message, 'request body too slow');
+        assert.strictEqual(err.minBytesPerSecond, 100);
+        return true;
+      });
+      assert.ok(stream.isPaused());
+      stream.destroy();
+    });
+
+    it('should accept body received fast enough', async function () {
+      const stream = createSlowStream(60, 10);
+      const rawParser = getRawParser({ minBytesPerSecond: 50 });
+      const body = await rawParser(stream, headers);
+      assert.strictEqual(body.length, 60);
+    });
+  });
+
+  describe('with signal', function () {
+    const headers = { 'content-type': 'application/octet-stream', 'transfer-encoding': 'chunked' };
+
+    it('should reject when aborted while reading', async function () {
+      const stream = createSlowStream(Infinity, 10);
+      const controller = new AbortController();
+      const rawParser = getRawParser();
+
+      setTimeout(() => controller.abort(), 50);
+      await assert.rejects(rawParser(stream, headers, controller.signal), (err: any) => {
+        assert.strictEqual(err.name, 'AbortError');
+        assert.strictEqual(err.code, 'ABORT_ERR');
+        assert.strictEqual(err.status, 400);
+        assert.strictEqual(err.type, 'request.aborted');
+        assert.strictEqual(err.message, 'request aborted');
+        assert.ok(err.received > 0);
+        return true;
+      });
+      assert.ok(stream.isPaused());
+      stream.destroy();
+    });
+
+    it('should reject when aborted before reading', async function () {
+      const stream = createSlowStream(3, 10);
+      const rawParser = getRawParser();
+
+      await assert.rejects(rawParser(stream, headers, AbortSignal.abort('cancelled')), (err: any) => {
+        assert.strictEqual(err.name, 'AbortError');
+        assert.strictEqual(err.received, 0);
+        assert.strictEqual(err.reason, 'cancelled');
+        return true;
+      });
+      stream.destroy();
+    });
+
+    it('should unpipe inflate stream', async function () {
+      const gzipped: any = zlib.gzipSync(Buffer.from('the user is tobi') as any);
+      const stream = new Readable({ read() {} });
+      const controller = new AbortController();
+      const rawParser = getRawParser();
+
+      stream.push(gzipped.slice(0, 10));
+      setTimeout(() => controller.abort(), 20);
+      await assert.rejects(
+        rawParser(stream, { ...headers, 'content-encoding': 'gzip' }, controller.signal),
+        (err: any) => err.name === 'AbortError',
+      );
+      assert.strictEqual((stream as any)._readableState.pipes.length, 0);
+      stream.destroy();
+    });
+
+    it('should accept body when not aborted', async function () {
+      const stream = createSlowStream(3, 10);
+      const controller = new AbortController();
+      const rawParser = getRawParser();
+      const body = await rawParser(stream, headers, controller.signal);
+
+      controller.abort();
+      assert.strictEqual(body.toString(), '...');
+    });
+  });
+
   describe('with inflate option', function () {
     describe('when false', function () {
       beforeAll(function () {
@@ -161,6 +425,14 @@ describe('raw()', function () {
         test.write(Buffer.from('1f8b080000000000000bcb4bcc4db57db16e170099a4bad608000000', 'hex') as any);
         test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
       });
+
+      it('should not accept brotli content-encoding', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Encoding', 'br');
+        test.set('Content-Type', 'application/octet-stream');
+        test.write(Buffer.from('8b03806e616d653de8aeba03', 'hex') as any);
+        test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
+      });
     });
 
     describe('when true', function () {
@@ -435,6 +707,34 @@ describe('raw()', function () {
       test.expect(200, 'buf:6e616d653de8aeba', done);
     });
 
+    it('should support brotli encoding', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'br');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('8b03806e616d653de8aeba03', 'hex') as any);
+      test.expect(200, 'buf:6e616d653de8aeba', done);
+    });
+
+    (HAS_ZSTD ? it : it.skip)('should support zstd encoding', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'zstd');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('28b52ffd20084100006e616d653de8aeba', 'hex') as any);
+      test.expect(200, 'buf:6e616d653de8aeba', done);
+    });
+
+    (HAS_ZSTD ? it.skip : it)('should 415 on zstd encoding without runtime support', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'zstd');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('28b52ffd20084100006e616d653de8aeba', 'hex') as any);
+      test.expect(
+        415,
+        /^\[encoding\.unsupported\] unsupported content encoding "zstd": zlib\.createZstdDecompress\(\) is not available/,
+        done,
+      );
+    });
+
     it('should be case-insensitive', function (done) {
       const test = request(server).post('/');
       test.set('Content-Encoding', 'GZIP');
@@ -443,6 +743,14 @@ describe('raw()', function () {
       test.expect(200, 'buf:6e616d653de8aeba', done);
     });
 
+    it('should support stacked encodings', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip, br');
+      test.set('Content-Type', 'application/octet-stream');
+      test.write(Buffer.from('8b0d801f8b080000000000000bcb4bcc4db57db16e170099a4bad60800000003', 'hex') as any);
+      test.expect(200, 'buf:6e616d653de8aeba', done);
+    });
+
     it('should 415 on unknown encoding', function (done) {
       const test = request(server).post('/');
       test.set('Content-Encoding', 'nulls');
@@ -458,7 +766,7 @@ function createServer(opts?: RawOptions | Function) {
 
   return http.createServer(async function (req, res) {
     try {
-      const body = await bodyParserOrCallback(req, req.headers, res);
+      const body = await bodyParserOrCallback(req, req.headers, typeof opts == 'function' ? res : undefined);
       if (Buffer.isBuffer(body)) {
         res.end('buf:' + body.toString('hex'));
         return;
@@ -474,3 +782,20 @@ function createServer(opts?: RawOptions | Function) {
     }
   });
 }
+
+/**
+ * Create a stream that provides the body one byte at a time.
+ */
+function createSlowStream(length: number, interval: number) {
+  let pushed = 0;
+
+  return new Readable({
+    read() {
+      if (pushed++ === length) {
+        this.push(null);
+      } else {
+        setTimeout(() => this.push('.'), interval);
+      }
+    },
+  });
+}
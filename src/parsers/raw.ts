@@ -4,7 +4,6 @@
  * MIT Licensed
  */
 
-import bytes from 'bytes';
 import debugInit from 'debug';
 import type { IncomingHttpHeaders } from 'node:http';
 import type { Readable } from 'node:stream';
@@ -12,14 +11,14 @@ import { hasBody } from '@ts-stack/type-is';
 
 import read from '../read.js';
 import type { RawOptions, BodyParser, BodyParserWithoutCheck } from '../types.js';
-import { getTypeChecker } from '../utils.js';
+import { getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
 
 const debug = debugInit('body-parser:raw');
 
 /**
  * Returns parser that parses all bodies as a `Buffer` and only looks at
  * requests where the `Content-Type` header matches the `type` option. This
- * parser supports automatic inflation of `gzip` and `deflate` encodings.
+ * parser supports automatic inflation of `gzip`, `deflate` and `br` encodings.
  *
  * The parser returns the request body in a Promise, that will be a `Buffer` object of the body.
  *
@@ -34,10 +33,10 @@ export function getRawParser(
 ): BodyParser | BodyParserWithoutCheck {
   const opts = options || {};
 
-  const inflate = opts.inflate !== false;
-  const limit = typeof opts.limit != 'number' ? bytes.parse(opts.limit || '100kb') : opts.limit;
+  const readOptions = getReadOptions(opts, '100kb');
   const type = opts.type || 'application/octet-stream';
   const verify = opts.verify || false;
+  const emptyBody = getEmptyBody(opts.emptyBody);
 
   if (verify !== false && typeof verify != 'function') {
     throw new TypeError('option verify must be function');
@@ -47,14 +46,15 @@ export function getRawParser(
   const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
 
   function parse(buf: Buffer) {
-    return buf;
+    // an empty body is only special-cased when the option is set
+    return buf.length === 0 && opts.emptyBody !== undefined ? emptyBody() : buf;
   }
 
-  function rawParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders) {
+  function rawParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
     return read(req, headers, parse, debug, {
+      ...readOptions,
       encoding: null,
-      inflate: inflate,
-      limit: limit,
+      signal: signal,
       verify: verify,
     });
   }
@@ -63,11 +63,11 @@ export function getRawParser(
     rawParserWithoutCheck.shouldParse = shouldParse;
     return rawParserWithoutCheck as BodyParserWithoutCheck;
   } else {
-    return function rawParser(req: Readable, headers: IncomingHttpHeaders) {
+    return function rawParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
       // skip requests without bodies
       if (!hasBody(headers)) {
         debug('skip empty body');
-        return Promise.resolve({} as any);
+        return new Promise((resolve) => resolve(emptyBody()));
       }
 
       debug(`content-type ${headers['content-type']}`);
@@ -78,7 +78,7 @@ export function getRawParser(
         return Promise.resolve({} as any);
       }
 
-      return rawParserWithoutCheck(req, headers);
+      return rawParserWithoutCheck(req, headers, signal);
     } as BodyParser;
   }
 }
@@ -1,12 +1,16 @@
 import assert from 'node:assert';
 import asyncHooks from 'node:async_hooks';
 import http, { IncomingHttpHeaders, Server } from 'node:http';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
 import { Buffer } from 'safe-buffer';
 import request from 'supertest';
 
 import { getTextParser } from './text.js';
 import type { TextOptions } from '../types.js';
 
+const GZIP_BOMB: any = zlib.gzipSync(Buffer.alloc(1024 * 1024) as any);
+
 describe('text()', function () {
   let server: Server;
   beforeAll(function () {
@@ -93,6 +97,28 @@ describe('text()', function () {
     });
   });
 
+  describe('with emptyBody option', function () {
+    it('should return empty string for empty body by default', function (done) {
+      request(createServer()).post('/').set('Content-Type', 'text/plain').send('').expect(200, '""', done);
+    });
+
+    it('should return null for empty body when "null"', function (done) {
+      request(createServer({ emptyBody: 'null' }))
+        .post('/')
+        .set('Content-Type', 'text/plain')
+        .send('')
+        .expect(200, 'null', done);
+    });
+
+    it('should 400 for empty body when "error"', function (done) {
+      request(createServer({ emptyBody: 'error' }))
+        .post('/')
+        .set('Content-Type', 'text/plain')
+        .send('')
+        .expect(400, '[entity.empty] request body is empty', done);
+    });
+  });
+
   describe('with limit option', function () {
     it('should 413 when over limit with Content-Length', function (done) {
       const buf = Buffer.alloc(1028, '.');
@@ -178,6 +204,14 @@ describe('text()', function () {
         test.write(Buffer.from('1f8b080000000000000bcb4bcc4d55c82c5678b16e170072b3e0200b000000', 'hex') as any);
         test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
       });
+
+      it('should not accept brotli content-encoding', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Encoding', 'br');
+        test.set('Content-Type', 'text/plain');
+        test.write(Buffer.from('0b05806e616d6520697320e8aeba03', 'hex') as any);
+        test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
+      });
     });
 
     describe('when true', function () {
@@ -195,6 +229,117 @@ describe('text()', function () {
     });
   });
 
+  describe('with compressedLimit option', function () {
+    it('should 413 when compressed body over limit', function (done) {
+      const server = createServer({ compressedLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'text/plain');
+      test.set('Content-Length', String(GZIP_BOMB.length));
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.compressed.too.large] compressed request entity too large', done);
+    });
+
+    it('should accept body under limit', function (done) {
+      const server = createServer({ compressedLimit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'text/plain');
+      test.write(Buffer.from('1f8b080000000000000bcb4bcc4d55c82c5678b16e170072b3e0200b000000', 'hex') as any);
+      test.expect(200, '"name is 论"', done);
+    });
+  });
+
+  describe('with decompressedLimit option', function () {
+    it('should 413 when inflated body over limit', function (done) {
+      const server = createServer({ decompressedLimit: '1kb', limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'text/plain');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with inflationRatioLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { inflationRatioLimit: 0 }),
+        /TypeError: option inflationRatioLimit must be a positive number/,
+      );
+    });
+
+    it('should 413 when inflation ratio over limit', function (done) {
+      const server = createServer({ inflationRatioLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'text/plain');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.inflation.ratio] request entity inflation ratio too large', done);
+    });
+  });
+
+  describe('with encodingLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { encodingLimit: 0 }),
+        /TypeError: option encodingLimit must be a positive number/,
+      );
+    });
+
+    it('should 415 when encodings over limit', function (done) {
+      const server = createServer({ encodingLimit: 1 });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip, br');
+      test.set('Content-Type', 'text/plain');
+      test.write(Buffer.from('1f8b080000000000000bcb4bcc4d55c82c5678b16e170072b3e0200b000000', 'hex') as any);
+      test.expect(415, '[encodings.too.many] too many content encodings', done);
+    });
+  });
+
+  describe('with timeout option', function () {
+    const headers = { 'content-type': 'text/plain', 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(createServer.bind(null, { timeout: 0 }), /TypeError: option timeout must be a positive number/);
+    });
+
+    it('should 408 when body is not read in time', async function () {
+      const stream = createSlowStream(Infinity, 20);
+      const parser = getTextParser({ timeout: 100 });
+
+      await assert.rejects(parser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.timeout');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
+  describe('with minBytesPerSecond option', function () {
+    const headers = { 'content-type': 'text/plain', 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { minBytesPerSecond: -1 }),
+        /TypeError: option minBytesPerSecond must be a positive number/,
+      );
+    });
+
+    it('should 408 when body is received too slowly', async function () {
+      const stream = createSlowStream(Infinity, 50);
+      const parser = getTextParser({ minBytesPerSecond: 100 });
+
+      await assert.rejects(parser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.too.slow');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
   describe('with type option', function () {
     describe('when "text/html"', function () {
       beforeAll(function () {
@@ -493,6 +638,14 @@ describe('text()', function () {
       test.expect(200, '"name is 论"', done);
     });
 
+    it('should support brotli encoding', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'br');
+      test.set('Content-Type', 'text/plain');
+      test.write(Buffer.from('0b05806e616d6520697320e8aeba03', 'hex') as any);
+      test.expect(200, '"name is 论"', done);
+    });
+
     it('should be case-insensitive', function (done) {
       const test = request(server).post('/');
       test.set('Content-Encoding', 'GZIP');
@@ -516,7 +669,11 @@ function createServer(opts?: TextOptions | Function) {
 
   return http.createServer(async function (req, res) {
     try {
-      const body = await bodyParserOrCallback(req, req.headers, res);
+      const body = await bodyParserOrCallback(
+        req,
+        req.headers,
+        typeof opts == 'function' ? res : undefined,
+      );
       res.statusCode = 200;
       res.end(JSON.stringify(body));
     } catch (err: any) {
@@ -526,3 +683,17 @@ function createServer(opts?: TextOptions | Function) {
     }
   });
 }
+
+function createSlowStream(length: number, interval: number) {
+  let pushed = 0;
+
+  return new Readable({
+    read() {
+      if (pushed++ === length) {
+        this.push(null);
+      } else {
+        setTimeout(() => this.push('.'), interval);
+      }
+    },
+  });
+}
@@ -4,7 +4,6 @@
  * MIT Licensed
  */
 
-import bytes from 'bytes';
 import debugInit from 'debug';
 import type { IncomingHttpHeaders } from 'node:http';
 import type { Readable } from 'node:stream';
@@ -12,14 +11,14 @@ import { hasBody } from '@ts-stack/type-is';
 
 import read from '../read.js';
 import { BodyParser, BodyParserWithoutCheck, TextOptions } from '../types.js';
-import { getCharset, getTypeChecker } from '../utils.js';
+import { getCharset, getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
 
 const debug = debugInit('body-parser:text');
 
 /**
  * Returns parser that parses all bodies as a string and only looks at
  * requests where the `Content-Type` header matches the `type` option. This
- * parser supports automatic inflation of `gzip` and `deflate` encodings.
+ * parser supports automatic inflation of `gzip`, `deflate` and `br` encodings.
  *
  * The parser returns the request body in a Promise, that will be a string of the body.
  *
@@ -35,10 +34,10 @@ export function getTextParser(
   const opts = options || {};
 
   const defaultCharset = opts.defaultCharset || 'utf-8';
-  const inflate = opts.inflate !== false;
-  const limit = typeof opts.limit != 'number' ? bytes.parse(opts.limit || '100kb') : opts.limit;
+  const readOptions = getReadOptions(opts, '100kb');
   const type = opts.type || 'text/plain';
   const verify = opts.verify || false;
+  const emptyBody = getEmptyBody(opts.emptyBody);
 
   if (verify !== false && typeof verify != 'function') {
     throw new TypeError('option verify must be function');
@@ -48,14 +47,15 @@ export function getTextParser(
   const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
 
   function parse(buf: Buffer) {
-    return buf;
+    // an empty body is only special-cased when the option is set
+    return buf.length === 0 && opts.emptyBody !== undefined ? emptyBody() : buf;
   }
 
-  function textParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders) {
+  function textParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
     return read<string | Buffer>(req, headers, parse, debug, {
+      ...readOptions,
       encoding: getCharset(headers) || defaultCharset,
-      inflate: inflate,
-      limit: limit,
+      signal: signal,
       verify: verify,
     });
   }
@@ -64,11 +64,11 @@ export function getTextParser(
     textParserWithoutCheck.shouldParse = shouldParse;
     return textParserWithoutCheck as BodyParserWithoutCheck;
   } else {
-    return function textParser(req: Readable, headers: IncomingHttpHeaders) {
+    return function textParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
       // skip requests without bodies
       if (!hasBody(headers)) {
         debug('skip empty body');
-        return Promise.resolve({} as any);
+        return new Promise((resolve) => resolve(emptyBody()));
       }
 
       debug(`content-type ${headers['content-type']}`);
@@ -80,7 +80,7 @@ export function getTextParser(
       }
 
       // read
-      return textParserWithoutCheck(req, headers);
+      return textParserWithoutCheck(req, headers, signal);
     } as BodyParser;
   }
 }
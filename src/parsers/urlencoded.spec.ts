@@ -1,12 +1,18 @@
 import assert from 'node:assert';
 import asyncHooks from 'node:async_hooks';
 import http, { IncomingHttpHeaders, Server } from 'node:http';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
 import { Buffer } from 'safe-buffer';
 import request from 'supertest';
 
 import { getUrlencodedParser } from './urlencoded.js';
 import type { UrlencodedOptions } from '../types.js';
 
+const HAS_ZSTD = typeof (zlib as any).createZstdDecompress == 'function';
+
+const GZIP_BOMB: any = zlib.gzipSync(Buffer.alloc(1024 * 1024) as any);
+
 describe('urlencoded()', function () {
   let server: Server;
   beforeAll(function () {
@@ -180,7 +186,8 @@ describe('urlencoded()', function () {
           .expect(200, '{"foo":[{"bar":"baz","fizz":"buzz"},"done!"]}', done);
       });
 
-      it('should parse deep object', function (done) {
+      it('should parse deep object with depth: Infinity', function (done) {
+        const server = createServer({ extended: true, qsOptions: { depth: Infinity } });
         let str = 'foo';
 
         for (let i = 0; i < 500; i++) {
@@ -210,6 +217,24 @@ describe('urlencoded()', function () {
     });
   });
 
+  describe('with emptyBody option', function () {
+    it('should return null for empty body when "null"', function (done) {
+      request(createServer({ emptyBody: 'null' }))
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('')
+        .expect(200, 'null', done);
+    });
+
+    it('should 400 for request without body when "error"', async function () {
+      await assert.rejects(getUrlencodedParser({ emptyBody: 'error' })(null as any, {}), (err: any) => {
+        assert.strictEqual(err.status, 400);
+        assert.strictEqual(err.type, 'entity.empty');
+        return true;
+      });
+    });
+  });
+
   describe('with inflate option', function () {
     describe('when false', function () {
       beforeAll(function () {
@@ -223,6 +248,14 @@ describe('urlencoded()', function () {
         test.write(Buffer.from('1f8b080000000000000bcb4bcc4db57db16e170099a4bad608000000', 'hex') as any);
         test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
       });
+
+      it('should not accept brotli content-encoding', function (done) {
+        const test = request(server).post('/');
+        test.set('Content-Encoding', 'br');
+        test.set('Content-Type', 'application/x-www-form-urlencoded');
+        test.write(Buffer.from('8b03806e616d653de8aeba03', 'hex') as any);
+        test.expect(415, '[encoding.unsupported] content encoding unsupported', done);
+      });
     });
 
     describe('when true', function () {
@@ -315,6 +348,142 @@ describe('urlencoded()', function () {
     });
   });
 
+  describe('with qsOptions option', function () {
+    let server: Server;
+    beforeAll(function () {
+      server = createServer({ extended: true });
+    });
+
+    it('should 400 when a key is nested deeper than 5 by default', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a[b][c][d][e][f]=1&a[b][c][d][e][f][g]=2')
+        .expect(400, '[parameters.depth.exceeded] too deeply nested parameter', done);
+    });
+
+    it('should check the depth of encoded keys', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a%5Bb%5D%5Bc%5D%5Bd%5D%5Be%5D%5Bf%5D%5Bg%5D=1')
+        .expect(400, '[parameters.depth.exceeded] too deeply nested parameter', done);
+    });
+
+    it('should parse keys up to the depth', function (done) {
+      const server = createServer({ extended: true, qsOptions: { depth: 1 } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a[b]=1&c=2')
+        .expect(200, '{"a":{"b":"1"},"c":"2"}', done);
+    });
+
+    it('should 400 when the depth is exceeded', function (done) {
+      const server = createServer({ extended: true, qsOptions: { depth: 1 } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a[b][c]=1')
+        .expect(400, '[parameters.depth.exceeded] too deeply nested parameter', done);
+    });
+
+    it('should count dots with allowDots', function (done) {
+      const server = createServer({ extended: true, qsOptions: { depth: 1, allowDots: true } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a.b.c=1')
+        .expect(400, '[parameters.depth.exceeded] too deeply nested parameter', done);
+    });
+
+    it('should ignore prototype keys by default', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('hasOwnProperty=1&a[toString]=2&b=3')
+        .expect(200, '{"b":"3"}', done);
+    });
+
+    it('should allow prototype keys with allowPrototypes', function (done) {
+      const server = createServer({ extended: true, qsOptions: { allowPrototypes: true } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('hasOwnProperty=1&b=3')
+        .expect(200, '{"hasOwnProperty":"1","b":"3"}', done);
+    });
+
+    it('should parse dot notation with allowDots', function (done) {
+      const server = createServer({ extended: true, qsOptions: { allowDots: true } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a.b=1')
+        .expect(200, '{"a":{"b":"1"}}', done);
+    });
+
+    it('should parse comma-separated values with comma', function (done) {
+      const server = createServer({ extended: true, qsOptions: { comma: true } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a=b,c')
+        .expect(200, '{"a":["b","c"]}', done);
+    });
+
+    it('should parse large indexes as object keys with arrayLimit', function (done) {
+      const server = createServer({ extended: true, qsOptions: { arrayLimit: 2 } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a[1]=b&c[3]=d')
+        .expect(200, '{"a":["b"],"c":{"3":"d"}}', done);
+    });
+
+    it('should not parse arrays with parseArrays: false', function (done) {
+      const server = createServer({ extended: true, qsOptions: { parseArrays: false } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a[0]=b')
+        .expect(200, '{"a":{"0":"b"}}', done);
+    });
+
+    it('should keep the first value with duplicates: first', function (done) {
+      const server = createServer({ extended: true, qsOptions: { duplicates: 'first' } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a=1&a=2')
+        .expect(200, '{"a":"1"}', done);
+    });
+
+    it('should parse keys without value as null with strictNullHandling', function (done) {
+      const server = createServer({ extended: true, qsOptions: { strictNullHandling: true } });
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .send('a&b=')
+        .expect(200, '{"a":null,"b":""}', done);
+    });
+
+    it('should reject invalid options', function () {
+      assert.throws(
+        createServer.bind(null, { extended: true, qsOptions: { depth: -1 } }),
+        /TypeError: option qsOptions.depth must be a non-negative number/,
+      );
+      assert.throws(
+        createServer.bind(null, { extended: true, qsOptions: { arrayLimit: 'beep' } } as any),
+        /TypeError: option qsOptions.arrayLimit must be a non-negative number/,
+      );
+      assert.throws(
+        createServer.bind(null, { extended: true, qsOptions: { duplicates: 'all' } } as any),
+        /TypeError: option qsOptions.duplicates must be "combine", "first" or "last"/,
+      );
+    });
+  });
+
   describe('with parameterLimit option', function () {
     describe('with extended: false', function () {
       it('should reject 0', function () {
@@ -435,6 +604,117 @@ describe('urlencoded()', function () {
     });
   });
 
+  describe('with compressedLimit option', function () {
+    it('should 413 when compressed body over limit', function (done) {
+      const server = createServer({ compressedLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.set('Content-Length', String(GZIP_BOMB.length));
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.compressed.too.large] compressed request entity too large', done);
+    });
+
+    it('should accept body under limit', function (done) {
+      const server = createServer({ compressedLimit: '1kb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(Buffer.from('1f8b080000000000000bcb4bcc4db57db16e170099a4bad608000000', 'hex') as any);
+      test.expect(200, '{"name":"论"}', done);
+    });
+  });
+
+  describe('with decompressedLimit option', function () {
+    it('should 413 when inflated body over limit', function (done) {
+      const server = createServer({ decompressedLimit: '1kb', limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.too.large] request entity too large', done);
+    });
+  });
+
+  describe('with inflationRatioLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { inflationRatioLimit: 0 }),
+        /TypeError: option inflationRatioLimit must be a positive number/,
+      );
+    });
+
+    it('should 413 when inflation ratio over limit', function (done) {
+      const server = createServer({ inflationRatioLimit: 100, limit: '2mb' });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(GZIP_BOMB);
+      test.expect(413, '[entity.inflation.ratio] request entity inflation ratio too large', done);
+    });
+  });
+
+  describe('with encodingLimit option', function () {
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { encodingLimit: 0 }),
+        /TypeError: option encodingLimit must be a positive number/,
+      );
+    });
+
+    it('should 415 when encodings over limit', function (done) {
+      const server = createServer({ encodingLimit: 1 });
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'gzip, br');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(Buffer.from('1f8b080000000000000bcb4bcc4db57db16e170099a4bad608000000', 'hex') as any);
+      test.expect(415, '[encodings.too.many] too many content encodings', done);
+    });
+  });
+
+  describe('with timeout option', function () {
+    const headers = { 'content-type': 'application/x-www-form-urlencoded', 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(createServer.bind(null, { timeout: 0 }), /TypeError: option timeout must be a positive number/);
+    });
+
+    it('should 408 when body is not read in time', async function () {
+      const stream = createSlowStream(Infinity, 20);
+      const parser = getUrlencodedParser({ timeout: 100 });
+
+      await assert.rejects(parser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.timeout');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
+  describe('with minBytesPerSecond option', function () {
+    const headers = { 'content-type': 'application/x-www-form-urlencoded', 'transfer-encoding': 'chunked' };
+
+    it('should reject non-positive number', function () {
+      assert.throws(
+        createServer.bind(null, { minBytesPerSecond: -1 }),
+        /TypeError: option minBytesPerSecond must be a positive number/,
+      );
+    });
+
+    it('should 408 when body is received too slowly', async function () {
+      const stream = createSlowStream(Infinity, 50);
+      const parser = getUrlencodedParser({ minBytesPerSecond: 100 });
+
+      await assert.rejects(parser(stream, headers), (err: any) => {
+        assert.strictEqual(err.status, 408);
+        assert.strictEqual(err.type, 'request.too.slow');
+        return true;
+      });
+      stream.destroy();
+    });
+  });
+
   describe('with type option', function () {
     describe('when "application/vnd.x-www-form-urlencoded"', function () {
       beforeAll(function () {
@@ -753,6 +1033,30 @@ describe('urlencoded()', function () {
       test.expect(200, '{"name":"论"}', done);
     });
 
+    it('should support brotli encoding', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'br');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(Buffer.from('8b03806e616d653de8aeba03', 'hex') as any);
+      test.expect(200, '{"name":"论"}', done);
+    });
+
+    (HAS_ZSTD ? it : it.skip)('should support zstd encoding', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'zstd');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(Buffer.from('28b52ffd20084100006e616d653de8aeba', 'hex') as any);
+      test.expect(200, '{"name":"论"}', done);
+    });
+
+    (HAS_ZSTD ? it.skip : it)('should 415 on zstd encoding without runtime support', function (done) {
+      const test = request(server).post('/');
+      test.set('Content-Encoding', 'zstd');
+      test.set('Content-Type', 'application/x-www-form-urlencoded');
+      test.write(Buffer.from('28b52ffd20084100006e616d653de8aeba', 'hex') as any);
+      test.expect(415, /^\[encoding\.unsupported\] unsupported content encoding "zstd": zlib\.createZstdDecompress\(\) is not available/, done);
+    });
+
     it('should be case-insensitive', function (done) {
       const test = request(server).post('/');
       test.set('Content-Encoding', 'GZIP');
@@ -793,7 +1097,11 @@ function createServer(opts?: UrlencodedOptions | Function) {
 
   return http.createServer(async function (req, res) {
     try {
-      const body = await bodyParserOrCallback(req, req.headers, res);
+      const body = await bodyParserOrCallback(
+        req,
+        req.headers,
+        typeof opts == 'function' ? res : undefined,
+      );
       res.statusCode = 200;
       res.end(JSON.stringify(body));
     } catch (err: any) {
@@ -809,3 +1117,17 @@ function expectKeyCount(count: number) {
     assert.strictEqual(Object.keys(JSON.parse(res.text)).length, count);
   };
 }
+
+function createSlowStream(length: number, interval: number) {
+  let pushed = 0;
+
+  return new Readable({
+    read() {
+      if (pushed++ === length) {
+        this.push(null);
+      } else {
+        setTimeout(() => this.push('.'), interval);
+      }
+    },
+  });
+}
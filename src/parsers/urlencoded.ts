@@ -5,7 +5,6 @@
  * MIT Licensed
  */
 
-import bytes from 'bytes';
 import contentType from 'content-type';
 import createError from 'http-errors';
 import debugInit from 'debug';
@@ -17,14 +16,21 @@ import { hasBody } from '@ts-stack/type-is';
 
 import read from '../read.js';
 import type { BodyParser, BodyParserWithoutCheck, UrlencodedOptions } from '../types.js';
-import { getTypeChecker } from '../utils.js';
+import { getCountLimit, getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
 
 const debug = debugInit('body-parser:urlencoded');
 
+const DUPLICATES = ['combine', 'first', 'last'];
+
+/**
+ * RegExp to match the bracket segments of a key, the same way `qs` does.
+ */
+const KEY_SEGMENT_REGEXP = /\[[^[\]]*]/g;
+
 /**
  * Returns parser that only parses `urlencoded` bodies and only looks at requests where
  * the `Content-Type` header matches the `type` option. This parser accepts only UTF-8
- * encoding of the body and supports automatic inflation of `gzip` and `deflate` encodings.
+ * encoding of the body and supports automatic inflation of `gzip`, `deflate` and `br` encodings.
  *
  * The parser returns the request body in a Promise, that will contain key-value pairs,
  * where the value can be a string or array (when `extended` is `false`),
@@ -48,10 +54,10 @@ export function getUrlencodedParser(
   const opts = options || {};
 
   const extended = opts.extended || false;
-  const inflate = opts.inflate !== false;
-  const limit = typeof opts.limit != 'number' ? bytes.parse(opts.limit || '100kb') : opts.limit;
+  const readOptions = getReadOptions(opts, '100kb');
   const type = opts.type || 'application/x-www-form-urlencoded';
   const verify = opts.verify || false;
+  const emptyBody = getEmptyBody(opts.emptyBody);
 
   if (verify !== false && typeof verify != 'function') {
     throw new TypeError('option verify must be function');
@@ -64,10 +70,10 @@ export function getUrlencodedParser(
   const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
 
   function parse(body: string) {
-    return (body.length ? queryparse(body) : {});
+    return (body.length ? queryparse(body) : emptyBody());
   }
 
-  function urlencodedParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders) {
+  function urlencodedParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
     // assert charset
     let charset = 'utf-8';
     try {
@@ -84,10 +90,10 @@ export function getUrlencodedParser(
 
     // read
     return read(req, headers, parse, debug, {
+      ...readOptions,
       debug,
       encoding: charset,
-      inflate,
-      limit,
+      signal,
       verify,
     });
   }
@@ -96,11 +102,11 @@ export function getUrlencodedParser(
     urlencodedParserWithoutCheck.shouldParse = shouldParse;
     return urlencodedParserWithoutCheck as BodyParserWithoutCheck;
   } else {
-    return function urlencodedParser(req: Readable, headers: IncomingHttpHeaders) {
+    return function urlencodedParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
       // skip requests without bodies
       if (!hasBody(headers)) {
         debug('skip empty body');
-        return Promise.resolve({});
+        return new Promise((resolve) => resolve(emptyBody()));
       }
 
       debug(`content-type ${headers['content-type']}`);
@@ -111,7 +117,7 @@ export function getUrlencodedParser(
         return Promise.resolve({});
       }
 
-      return urlencodedParserWithoutCheck(req, headers);
+      return urlencodedParserWithoutCheck(req, headers, signal);
     } as BodyParser;
   }
 }
@@ -121,6 +127,12 @@ export function getUrlencodedParser(
  */
 function extendedparser(options: UrlencodedOptions) {
   let parameterLimit = options.parameterLimit !== undefined ? options.parameterLimit : 1000;
+  const qsOptions = options.qsOptions || {};
+  const depth = getCountLimit('qsOptions.depth', qsOptions.depth, 5);
+  const allowDots = qsOptions.allowDots === true;
+  const duplicates = qsOptions.duplicates || 'combine';
+  const arrayLimit =
+    qsOptions.arrayLimit !== undefined ? getCountLimit('qsOptions.arrayLimit', qsOptions.arrayLimit, 0) : undefined;
   const parse = qs.parse;
 
   if (isNaN(parameterLimit) || parameterLimit < 1) {
@@ -131,6 +143,24 @@ function extendedparser(options: UrlencodedOptions) {
     parameterLimit = parameterLimit | 0;
   }
 
+  if (!DUPLICATES.includes(duplicates)) {
+    throw new TypeError('option qsOptions.duplicates must be "combine", "first" or "last"');
+  }
+
+  function decoder(str: string, defaultDecoder: qs.defaultDecoder, charset: string, type: 'key' | 'value') {
+    const decoded = defaultDecoder(str, defaultDecoder, charset);
+
+    if (type === 'key' && keyDepth(decoded, allowDots) > depth) {
+      debug('too deeply nested parameter');
+      throw createError(400, 'too deeply nested parameter', {
+        limit: depth,
+        type: 'parameters.depth.exceeded',
+      });
+    }
+
+    return decoded;
+  }
+
   return function queryparse(body: string) {
     const paramCount = parameterCount(body, parameterLimit);
 
@@ -141,18 +171,34 @@ function extendedparser(options: UrlencodedOptions) {
       });
     }
 
-    const arrayLimit = Math.max(100, paramCount);
-
     debug('parse extended urlencoding');
     return parse(body, {
-      allowPrototypes: true,
-      arrayLimit: arrayLimit,
-      depth: Infinity,
+      allowDots,
+      allowPrototypes: qsOptions.allowPrototypes === true,
+      arrayLimit: arrayLimit !== undefined ? arrayLimit : Math.max(100, paramCount),
+      comma: qsOptions.comma === true,
+      decoder: isFinite(depth) ? decoder : undefined,
+      depth,
+      duplicates,
       parameterLimit,
+      parseArrays: qsOptions.parseArrays !== false,
+      strictNullHandling: qsOptions.strictNullHandling === true,
     });
   };
 }
 
+/**
+ * Get the nesting depth of a decoded key, like `2` for `a[b][c]`.
+ */
+function keyDepth(key: string, allowDots: boolean) {
+  if (allowDots) {
+    key = key.replace(/\.([^.[]+)/g, '[$1]');
+  }
+
+  const segments = key.match(KEY_SEGMENT_REGEXP);
+  return segments ? segments.length : 0;
+}
+
 /**
  * Count the number of parameters, stopping once limit reached.
  */
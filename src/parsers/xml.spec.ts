@@ -0,0 +1,644 @@
+import assert from 'node:assert';
+import http, { Server } from 'node:http';
+import zlib from 'node:zlib';
+import { Buffer } from 'safe-buffer';
+import request from 'supertest';
+
+import { getXmlParser } from './xml.js';
+import type { XmlOptions } from '../types.js';
+
+const BILLION_LAUGHS =
+  '<!DOCTYPE lolz [<!ENTITY lol "lol">' +
+  '<!ENTITY lol1 "&lol;&lol;&lol;&lol;&lol;&lol;&lol;&lol;&lol;&lol;">' +
+  '<!ENTITY lol2 "&lol1;&lol1;&lol1;&lol1;&lol1;&lol1;&lol1;&lol1;&lol1;&lol1;">' +
+  '<!ENTITY lol3 "&lol2;&lol2;&lol2;&lol2;&lol2;&lol2;&lol2;&lol2;&lol2;&lol2;">' +
+  '<!ENTITY lol4 "&lol3;&lol3;&lol3;&lol3;&lol3;&lol3;&lol3;&lol3;&lol3;&lol3;">' +
+  ']><lolz>&lol4;</lolz>';
+
+describe('xml()', function () {
+  let server: Server;
+  beforeAll(function () {
+    server = createServer();
+  });
+
+  it('should parse application/xml', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<user><name>tobi</name></user>')
+      .expect(200, '{"user":{"name":"tobi"}}', done);
+  });
+
+  it('should parse text/xml', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'text/xml')
+      .send('<user>tobi</user>')
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should parse +xml suffix', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/soap+xml')
+      .send('<user>tobi</user>')
+      .expect(200, '{"user":"tobi"}', done);
+  });
+
+  it('should parse attributes', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<user id="1" name=\'tobi\'/>')
+      .expect(200, '{"user":{"@id":"1","@name":"tobi"}}', done);
+  });
+
+  it('should parse repeated elements as array', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<list>\n  <item>a</item>\n  <item>b</item>\n  <other/>\n</list>')
+      .expect(200, '{"list":{"item":["a","b"],"other":""}}', done);
+  });
+
+  it('should parse text of element with attributes', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<user id="1"> tobi </user>')
+      .expect(200, '{"user":{"@id":"1","#text":"tobi"}}', done);
+  });
+
+  it('should replace references', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a b="&quot;&apos;">&lt;b&gt; &amp; &#65;&#x42;</a>')
+      .expect(200, '{"a":{"@b":"\\"\'","#text":"<b> & AB"}}', done);
+  });
+
+  it('should parse CDATA sections', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a>x<![CDATA[<b>&amp;</b>]]></a>')
+      .expect(200, '{"a":"x<b>&amp;</b>"}', done);
+  });
+
+  it('should skip XML declaration, comments and processing instructions', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<?xml version="1.0"?>\n<!-- comment -->\n<a><?pi data?>b<!-- comment -->c</a>\n')
+      .expect(200, '{"a":"bc"}', done);
+  });
+
+  it('should normalize line endings', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a b="x\ty\r\nz">x\r\ny\rz</a>')
+      .expect(200, '{"a":{"@b":"x y z","#text":"x\\ny\\nz"}}', done);
+  });
+
+  it('should define __proto__ as own property', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a __proto__="x"><__proto__>y</__proto__></a>')
+      .expect(200, '{"a":{"@__proto__":"x","__proto__":"y"}}', done);
+  });
+
+  it('should handle Content-Length: 0', function (done) {
+    request(server).post('/').set('Content-Type', 'application/xml').set('Content-Length', '0').expect(200, '{}', done);
+  });
+
+  it('should 400 when end tag does not match', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a></b>')
+      .expect(
+        400,
+        '[entity.parse.failed] Mismatched XML end tag "b", expected "a" at position 3 (line 1 column 4)',
+        done,
+      );
+  });
+
+  it('should 400 when element is not closed', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a>')
+      .expect(400, '[entity.parse.failed] Unexpected end of XML input at position 3 (line 1 column 4)', done);
+  });
+
+  it('should 400 when there is no root element', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<?xml version="1.0"?>')
+      .expect(400, '[entity.parse.failed] Unexpected end of XML input at position 21 (line 1 column 22)', done);
+  });
+
+  it('should 400 for second root element', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a/><b/>')
+      .expect(
+        400,
+        '[entity.parse.failed] Unexpected XML element after root element at position 4 (line 1 column 5)',
+        done,
+      );
+  });
+
+  it('should 400 for text outside of root element', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('{"user":"tobi"}')
+      .expect(
+        400,
+        '[entity.parse.failed] Unexpected text outside of XML root element at position 0 (line 1 column 1)',
+        done,
+      );
+  });
+
+  it('should 400 for duplicate attribute', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a b="1" b="2"/>')
+      .expect(400, '[entity.parse.failed] Duplicate XML attribute "b" at position 9 (line 1 column 10)', done);
+  });
+
+  it('should 400 for undefined entity', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a>&foo;</a>')
+      .expect(400, '[entity.parse.failed] Undefined XML entity "foo" at position 3 (line 1 column 4)', done);
+  });
+
+  it('should 400 for unescaped ampersand', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a>AT&T</a>')
+      .expect(400, '[entity.parse.failed] Invalid XML reference at position 5 (line 1 column 6)', done);
+  });
+
+  it('should 400 for invalid character reference', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<a>&#0;</a>')
+      .expect(
+        400,
+        '[entity.parse.failed] Invalid XML character reference "&#0;" at position 3 (line 1 column 4)',
+        done,
+      );
+  });
+
+  it('should include line of error', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('X-Error-Property', 'line')
+      .send('<a>\n  <b>\n</a>')
+      .expect(400, '3', done);
+  });
+
+  it('should include column of error', function (done) {
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('X-Error-Property', 'column')
+      .send('<a>\n  <b x>\n</a>')
+      .expect(400, '7', done);
+  });
+
+  describe('with namespaces option', function () {
+    it('should keep prefixes by default', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<soap:Envelope xmlns:soap="urn:soap"><soap:Body/></soap:Envelope>')
+        .expect(200, '{"soap:Envelope":{"@xmlns:soap":"urn:soap","soap:Body":""}}', done);
+    });
+
+    it('should 400 for unbound prefix of element', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a><soap:Body/></a>')
+        .expect(400, '[entity.parse.failed] Unbound XML namespace prefix "soap" at position 3 (line 1 column 4)', done);
+    });
+
+    it('should 400 for unbound prefix of attribute', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a x:b="1"/>')
+        .expect(400, '[entity.parse.failed] Unbound XML namespace prefix "x" at position 0 (line 1 column 1)', done);
+    });
+
+    it('should accept the xml prefix', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a xml:lang="en"/>')
+        .expect(200, '{"a":{"@xml:lang":"en"}}', done);
+    });
+
+    it('should not check prefixes when false', function (done) {
+      request(createServer({ namespaces: false }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<soap:Envelope/>')
+        .expect(200, '{"soap:Envelope":""}', done);
+    });
+  });
+
+  describe('with output option', function () {
+    it('should return the root element when "dom"', function (done) {
+      request(createServer({ output: 'dom' }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a xmlns="urn:a"><b:c xmlns:b="urn:b">x</b:c></a>')
+        .expect(
+          200,
+          JSON.stringify({
+            type: 'element',
+            name: 'a',
+            localName: 'a',
+            prefix: null,
+            namespaceURI: 'urn:a',
+            attributes: { xmlns: 'urn:a' },
+            children: [
+              {
+                type: 'element',
+                name: 'b:c',
+                localName: 'c',
+                prefix: 'b',
+                namespaceURI: 'urn:b',
+                attributes: { 'xmlns:b': 'urn:b' },
+                children: [{ type: 'text', value: 'x' }],
+              },
+            ],
+          }),
+          done,
+        );
+    });
+
+    it('should keep order of mixed content when "dom"', function (done) {
+      request(createServer({ output: 'dom' }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<p>Hello <b>world</b><![CDATA[!]]>&#33;</p>')
+        .expect(function (res) {
+          const children = JSON.parse(res.text).children;
+          assert.deepStrictEqual(
+            children.map((node: any) => node.value || node.name),
+            ['Hello ', 'b', '!!'],
+          );
+        })
+        .expect(200, done);
+    });
+
+    it('should inherit default namespace when "dom"', function (done) {
+      request(createServer({ output: 'dom' }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a xmlns="urn:a"><b/><c xmlns=""/></a>')
+        .expect(function (res) {
+          const children = JSON.parse(res.text).children;
+          assert.deepStrictEqual(
+            children.map((node: any) => node.namespaceURI),
+            ['urn:a', null],
+          );
+        })
+        .expect(200, done);
+    });
+
+    it('should reject invalid value', function () {
+      assert.throws(createServer.bind(null, { output: 'foo' as any }), /option output must be "object" or "dom"/);
+    });
+  });
+
+  describe('with allowDoctype option', function () {
+    describe('when undefined', function () {
+      it('should 400 for DOCTYPE', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a><a/>')
+          .expect(400, '[entity.parse.doctype] XML DOCTYPE is not allowed at position 0 (line 1 column 1)', done);
+      });
+
+      it('should 400 for external entity', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<?xml version="1.0"?>\n<!DOCTYPE a [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><a>&xxe;</a>')
+          .expect(400, '[entity.parse.doctype] XML DOCTYPE is not allowed at position 22 (line 2 column 1)', done);
+      });
+    });
+
+    describe('when true', function () {
+      let server: Server;
+      beforeAll(function () {
+        server = createServer({ allowDoctype: true, maxEntityExpansions: 100 });
+      });
+
+      it('should expand internal entities', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ENTITY name "tobi"><!ENTITY user "&name; &amp; &#76;oki">]><a b="&name;">&user;</a>')
+          .expect(200, '{"a":{"@b":"tobi","#text":"tobi & Loki"}}', done);
+      });
+
+      it('should keep the first declaration of an entity', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ENTITY name "tobi"><!ENTITY name "loki">]><a>&name;</a>')
+          .expect(200, '{"a":"tobi"}', done);
+      });
+
+      it('should skip other declarations', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ELEMENT a (#PCDATA)><!ATTLIST a b CDATA "x>"><!-- c --><?pi?>]><a/>')
+          .expect(200, '{"a":""}', done);
+      });
+
+      it('should not load external DTD', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a SYSTEM "http://example.com/a.dtd"><a>x</a>')
+          .expect(200, '{"a":"x"}', done);
+      });
+
+      it('should 400 for external entity', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><a>&xxe;</a>')
+          .expect(
+            400,
+            '[entity.parse.doctype] External XML entity "xxe" is not allowed at position 59 (line 1 column 60)',
+            done,
+          );
+      });
+
+      it('should 400 for parameter entity reference', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ENTITY % p SYSTEM "http://example.com/p.dtd"> %p;]><a/>')
+          .expect(
+            400,
+            '[entity.parse.doctype] XML parameter entities are not supported at position 61 (line 1 column 62)',
+            done,
+          );
+      });
+
+      it('should 400 for parameter entity reference in entity value', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ENTITY e "%x;">]><a/>')
+          .expect(
+            400,
+            '[entity.parse.doctype] XML parameter entities are not supported at position 25 (line 1 column 26)',
+            done,
+          );
+      });
+
+      it('should 400 for recursive entity', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE r [<!ENTITY a "&b;"><!ENTITY b "&a;">]><r>&a;</r>')
+          .expect(400, '[entity.parse.failed] Recursive XML entity "a" at position 52 (line 1 column 53)', done);
+      });
+
+      it('should 400 for entity with markup', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE r [<!ENTITY m "<b/>">]><r>&m;</r>')
+          .expect(
+            400,
+            '[entity.parse.failed] XML entity "m" with markup is not supported at position 36 (line 1 column 37)',
+            done,
+          );
+      });
+
+      it('should 413 for billion laughs', function (done) {
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send(BILLION_LAUGHS)
+          .expect(413, '[entity.expansions.exceeded] too many XML entity expansions', done);
+      });
+
+      it('should 413 for billion laughs by default', function (done) {
+        request(createServer({ allowDoctype: true }))
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send(BILLION_LAUGHS.replace('&lol4;', '&lol4;&lol4;'))
+          .expect(413, '[entity.expansions.exceeded] too many XML entity expansions', done);
+      });
+
+      it('should 413 when expanded text is too long', function (done) {
+        request(createServer({ allowDoctype: true, maxExpandedLength: 15 }))
+          .post('/')
+          .set('Content-Type', 'application/xml')
+          .send('<!DOCTYPE a [<!ENTITY big "0123456789">]><a>&big;&big;</a>')
+          .expect(413, '[entity.expansion.length.exceeded] XML entity expansion too long', done);
+      });
+    });
+  });
+
+  describe('with maxDepth option', function () {
+    it('should 413 when nested too deep', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a><b><c/></b></a>')
+        .expect(413, '[entity.depth.exceeded] XML depth limit exceeded', done);
+    });
+
+    it('should report the path', function (done) {
+      request(createServer({ maxDepth: 2 }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .set('X-Error-Property', 'path')
+        .send('<a><b><c/></b></a>')
+        .expect(413, '/a/b/c', done);
+    });
+
+    it('should accept 100 nested elements by default', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a>'.repeat(100) + '</a>'.repeat(100))
+        .expect(200, done);
+    });
+
+    it('should 413 when nested deeper than 100 by default', function (done) {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<a>'.repeat(10000) + '</a>'.repeat(10000))
+        .expect(413, '[entity.depth.exceeded] XML depth limit exceeded', done);
+    });
+
+    it('should reject invalid limit', function () {
+      assert.throws(
+        createServer.bind(null, { maxEntityExpansions: -1 }),
+        /option maxEntityExpansions must be a non-negative number/,
+      );
+    });
+  });
+
+  describe('charset', function () {
+    it('should parse charset of Content-Type', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml; charset=iso-8859-1')
+        .send(Buffer.from('<a>caf\u00e9</a>', 'latin1') as any)
+        .expect(200, '{"a":"caf\u00e9"}', done);
+    });
+
+    it('should parse encoding of XML declaration', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send(Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?><a>caf\u00e9</a>', 'latin1') as any)
+        .expect(200, '{"a":"caf\u00e9"}', done);
+    });
+
+    it('should prefer charset of Content-Type', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml; charset=utf-8')
+        .send(Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?><a>caf\u00e9</a>', 'utf-8') as any)
+        .expect(200, '{"a":"caf\u00e9"}', done);
+    });
+
+    it('should parse UTF-16 with byte order mark', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send(Buffer.from('\ufeff<?xml version="1.0" encoding="UTF-16"?><a>caf\u00e9</a>', 'utf16le') as any)
+        .expect(200, '{"a":"caf\u00e9"}', done);
+    });
+
+    it('should default to utf-8', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send(Buffer.from('<a>caf\u00e9</a>', 'utf-8') as any)
+        .expect(200, '{"a":"caf\u00e9"}', done);
+    });
+
+    it('should 415 for unsupported charset of Content-Type', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml; charset=bogus')
+        .send('<a/>')
+        .expect(415, '[charset.unsupported] unsupported charset "BOGUS"', done);
+    });
+
+    it('should 415 for unsupported encoding of XML declaration', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<?xml version="1.0" encoding="bogus"?><a/>')
+        .expect(415, '[charset.unsupported] unsupported charset "BOGUS"', done);
+    });
+  });
+
+  describe('with emptyBody option', function () {
+    it('should return null when "null"', function (done) {
+      request(createServer({ emptyBody: 'null' }))
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .set('Content-Length', '0')
+        .expect(200, 'null', done);
+    });
+  });
+
+  describe('with type option', function () {
+    it('should parse for custom type', function (done) {
+      request(createServer({ type: 'application/vnd.foo' }))
+        .post('/')
+        .set('Content-Type', 'application/vnd.foo')
+        .send('<a/>')
+        .expect(200, '{"a":""}', done);
+    });
+
+    it('should ignore other types', function (done) {
+      request(server).post('/').set('Content-Type', 'application/json').send('{}').expect(200, '{}', done);
+    });
+  });
+
+  describe('with verify option', function () {
+    it('should assert value if function', function () {
+      assert.throws(createServer.bind(null, { verify: 'lol' as any }), /TypeError: option verify must be function/);
+    });
+
+    it('should allow custom codes', function (done) {
+      const server = createServer({
+        verify: function (req, buf) {
+          if (!buf.includes('<!DOCTYPE')) return;
+          const err: any = new Error('no doctype');
+          err.status = 400;
+          throw err;
+        },
+      });
+
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send('<!DOCTYPE a><a/>')
+        .expect(400, '[entity.verify.failed] no doctype', done);
+    });
+  });
+
+  describe('encoding', function () {
+    it('should parse gzip encoding', function (done) {
+      request(server)
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .set('Content-Encoding', 'gzip')
+        .send(zlib.gzipSync('<user>tobi</user>'))
+        .expect(200, '{"user":"tobi"}', done);
+    });
+  });
+});
+
+function createServer(opts?: XmlOptions) {
+  const xmlParser = getXmlParser(opts);
+
+  return http.createServer(async function (req, res) {
+    try {
+      const body = await xmlParser(req, req.headers);
+      res.end(JSON.stringify(body));
+    } catch (err: any) {
+      res.statusCode = err.status || 500;
+      res.end(
+        req.headers['x-error-property']
+          ? String(err[req.headers['x-error-property'] as string])
+          : '[' + err.type + '] ' + err.message,
+      );
+    }
+  });
+}
@@ -0,0 +1,148 @@
+import debugInit from 'debug';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Readable } from 'node:stream';
+import { hasBody } from '@ts-stack/type-is';
+import createError from 'http-errors';
+import iconv from 'iconv-lite';
+
+import read from '../read.js';
+import type { BodyParser, BodyParserWithoutCheck, XmlOptions } from '../types.js';
+import { getCharset, getCountLimit, getEmptyBody, getReadOptions, getTypeChecker } from '../utils.js';
+import { XmlParser } from '../xml.js';
+
+const debug = debugInit('body-parser:xml');
+
+const XML_TYPES = ['application/xml', 'text/xml', '+xml'];
+
+/**
+ * RegExp to match the encoding declaration of an XML declaration.
+ */
+const ENCODING_DECLARATION_REGEXP = /^<\?xml\s[^>]*?\bencoding\s*=\s*["']([A-Za-z][\w.-]*)["']/;
+
+/**
+ * Returns parser that only parses XML bodies and only looks at requests where
+ * the `Content-Type` header matches the `type` option. This parser supports automatic
+ * inflation of `gzip`, `deflate` and `br` encodings.
+ *
+ * The charset is taken from the `Content-Type` header, or from the byte order mark or the XML
+ * declaration of the body, and defaults to `utf-8`.
+ *
+ * The parser returns the parsed request body in a Promise, that will be a plain object
+ * or the root `XmlElement`, depending on the `output` option.
+ *
+ * @param withoutCheck If you set this parameter to `true`, the presence
+ * of the request body and the matching of headers will not be checked.
+ */
+export function getXmlParser(options?: XmlOptions, withoutCheck?: false | undefined): BodyParser;
+export function getXmlParser(options: XmlOptions, withoutCheck: true): BodyParserWithoutCheck;
+export function getXmlParser(options?: XmlOptions, withoutCheck?: boolean): BodyParser | BodyParserWithoutCheck {
+  const opts = options || {};
+
+  const readOptions = getReadOptions(opts, '100kb');
+  const output = opts.output || 'object';
+  const maxDepth = getCountLimit('maxDepth', opts.maxDepth, 100);
+  const maxEntityExpansions = getCountLimit('maxEntityExpansions', opts.maxEntityExpansions, 1000);
+  const maxExpandedLength = getCountLimit('maxExpandedLength', opts.maxExpandedLength, 100000);
+  const type = opts.type || XML_TYPES;
+  const verify = opts.verify || false;
+  const emptyBody = getEmptyBody(opts.emptyBody);
+
+  if (verify !== false && typeof verify != 'function') {
+    throw new TypeError('option verify must be function');
+  }
+
+  if (output !== 'object' && output !== 'dom') {
+    throw new TypeError('option output must be "object" or "dom"');
+  }
+
+  // create the appropriate type checking function
+  const shouldParse = typeof type != 'function' ? getTypeChecker(type) : type;
+
+  const parser = new XmlParser({
+    dom: output === 'dom',
+    allowDoctype: opts.allowDoctype === true,
+    namespaces: opts.namespaces !== false,
+    maxDepth,
+    maxEntityExpansions,
+    maxExpandedLength,
+  });
+
+  function parse(buf: Buffer, charset: string | undefined) {
+    if (buf.length === 0) {
+      return emptyBody();
+    }
+
+    // the charset of the header takes precedence over the one of the body (RFC 7303)
+    const encoding = charset || getXmlEncoding(buf) || 'utf-8';
+    assertCharset(encoding);
+
+    debug('parse xml');
+    return parser.parse(iconv.decode(buf, encoding));
+  }
+
+  async function xmlParserWithoutCheck(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+    const charset = getCharset(headers) || undefined;
+
+    if (charset) {
+      assertCharset(charset);
+    }
+
+    // read
+    return read(req, headers, (buf: Buffer) => parse(buf, charset), debug, {
+      ...readOptions,
+      encoding: null,
+      signal,
+      verify,
+    });
+  }
+
+  if (withoutCheck) {
+    xmlParserWithoutCheck.shouldParse = shouldParse;
+    return xmlParserWithoutCheck as BodyParserWithoutCheck;
+  } else {
+    return function xmlParser(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal) {
+      // skip requests without bodies
+      if (!hasBody(headers)) {
+        debug('skip empty body');
+        return new Promise((resolve) => resolve(emptyBody()));
+      }
+
+      debug(`content-type ${headers['content-type']}`);
+
+      // determine if request should be parsed
+      if (!shouldParse(headers)) {
+        debug('skip parsing');
+        return Promise.resolve({});
+      }
+
+      return xmlParserWithoutCheck(req, headers, signal);
+    } as BodyParser;
+  }
+}
+
+function assertCharset(charset: string) {
+  if (!iconv.encodingExists(charset)) {
+    debug('invalid charset');
+    throw createError(415, 'unsupported charset "' + charset.toUpperCase() + '"', {
+      charset,
+      type: 'charset.unsupported',
+    });
+  }
+}
+
+/**
+ * Get the charset of an XML body from its byte order mark, or from the encoding
+ * declaration of its XML declaration.
+ */
+function getXmlEncoding(buf: Buffer) {
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return 'utf-8';
+  if (buf[0] === 0xff && buf[1] === 0xfe) return 'utf-16le';
+  if (buf[0] === 0xfe && buf[1] === 0xff) return 'utf-16be';
+
+  // an XML declaration in UTF-16 without byte order mark
+  if (buf[0] === 0x3c && buf[1] === 0x00 && buf[2] === 0x3f && buf[3] === 0x00) return 'utf-16le';
+  if (buf[0] === 0x00 && buf[1] === 0x3c && buf[2] === 0x00 && buf[3] === 0x3f) return 'utf-16be';
+
+  const match = ENCODING_DECLARATION_REGEXP.exec(buf.toString('latin1', 0, 200));
+  return match ? match[1].toLowerCase() : undefined;
+}
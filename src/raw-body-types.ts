@@ -17,6 +17,29 @@ export interface RawBodyOptions {
    * `utf-8`. You can use any type of encoding supported by `iconv-lite`.
    */
   encoding?: RawBodyEncoding | null;
+  /**
+   * If this function is set, it is called with every chunk of the stream instead of
+   * accumulating the chunks in the body, so the body is resolved as an empty value.
+   * If the function returns a promise, the stream is paused until the promise is settled.
+   * Reading is aborted with the error thrown (or rejected) by this function.
+   */
+  onData?: (chunk: Buffer) => void | Promise<void>;
+  /**
+   * The maximum time in milliseconds to read the whole stream. If the stream
+   * has not ended in time, reading is aborted with a 408 error.
+   */
+  timeout?: number;
+  /**
+   * The minimum number of bytes the stream must provide every second. It is checked
+   * once a second, except while the stream is paused for `onData`, and reading
+   * is aborted with a 408 error when the stream is slower.
+   */
+  minBytesPerSecond?: number;
+  /**
+   * A signal to cancel reading. When it is aborted, reading stops and is rejected
+   * with an error named `AbortError` and the `'request.aborted'` type.
+   */
+  signal?: AbortSignal;
 }
 
 export interface RawBodyError extends Error {
@@ -37,6 +60,18 @@ export interface RawBodyError extends Error {
    * The encoding.
    */
   encoding?: string;
+  /**
+   * The read timeout in milliseconds.
+   */
+  timeout?: number;
+  /**
+   * The minimum throughput in bytes per second.
+   */
+  minBytesPerSecond?: number;
+  /**
+   * The reason of the aborted `AbortSignal`.
+   */
+  reason?: any;
   /**
    * The corresponding status code for the error.
    */
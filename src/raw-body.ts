@@ -87,11 +87,11 @@ export function getRawBody(stream: Readable, callbackOrOptions?: RawBodyOptions
 
   if (done) {
     // classic callback style
-    return readStream(stream, encoding, length, limit, wrap(done));
+    return readStream(stream, encoding, length, limit, opts, wrap(done));
   }
 
   return new Promise(function promiseExecutor(resolve, reject) {
-    readStream(stream, encoding, length, limit, function onRead(err: null | Error, buf) {
+    readStream(stream, encoding, length, limit, opts, function onRead(err: null | Error, buf) {
       if (err) return reject(err);
       resolve(buf);
     });
@@ -106,10 +106,22 @@ function readStream(
   encoding: RawBodyEncoding | null | undefined,
   length: number | null,
   limit: number,
+  opts: RawBodyOptions,
   callback: Fn,
 ) {
+  const consume = opts.onData;
+  const timeout = opts.timeout;
+  const minBytesPerSecond = opts.minBytesPerSecond;
+  const signal = opts.signal;
   let complete = false;
   let sync = true;
+  let timer: NodeJS.Timeout | null = null;
+  let throughputTimer: NodeJS.Timeout | null = null;
+
+  // reading was cancelled before it started
+  if (signal && signal.aborted) {
+    return done(getAbortError(signal, length, 0));
+  }
 
   // check the length and limit options.
   // note: we intentionally leave the stream paused,
@@ -149,6 +161,8 @@ function readStream(
   }
 
   let received = 0;
+  let receivedPerSecond = 0;
+  let consuming = false;
   let decoder: iconv.DecoderStream | null;
 
   try {
@@ -166,6 +180,19 @@ function readStream(
   stream.on('end', onEnd);
   stream.on('error', onEnd);
 
+  // bound the time of reading
+  if (timeout) {
+    timer = setTimeout(onTimeout, timeout);
+  }
+
+  if (minBytesPerSecond) {
+    throughputTimer = setInterval(onThroughputCheck, 1000);
+  }
+
+  if (signal) {
+    signal.addEventListener('abort', onSignalAbort);
+  }
+
   // mark sync section complete
   sync = false;
 
@@ -205,10 +232,50 @@ function readStream(
     );
   }
 
+  function onSignalAbort() {
+    if (complete) return;
+
+    done(getAbortError(signal!, length, received));
+  }
+
+  function onTimeout() {
+    if (complete) return;
+
+    done(
+      createError(408, 'request timeout', {
+        expected: length,
+        length: length,
+        received: received,
+        timeout: timeout,
+        type: 'request.timeout',
+      }),
+    );
+  }
+
+  function onThroughputCheck() {
+    if (complete) return;
+
+    // the consumer, not the client, is slow while the stream is paused for it
+    if (!consuming && receivedPerSecond < minBytesPerSecond!) {
+      done(
+        createError(408, 'request body too slow', {
+          expected: length,
+          length: length,
+          received: received,
+          minBytesPerSecond: minBytesPerSecond,
+          type: 'request.too.slow',
+        }),
+      );
+    }
+
+    receivedPerSecond = 0;
+  }
+
   function onData(chunk: Buffer) {
     if (complete) return;
 
     received += chunk.length;
+    receivedPerSecond += chunk.length;
 
     if (limit !== null && received > limit) {
       done(
@@ -218,6 +285,8 @@ function readStream(
           type: 'entity.too.large',
         }),
       );
+    } else if (consume) {
+      consumeChunk(chunk);
     } else if (decoder) {
       buffer += decoder.write(chunk);
     } else {
@@ -225,6 +294,31 @@ function readStream(
     }
   }
 
+  function consumeChunk(chunk: Buffer) {
+    let result: void | Promise<void>;
+
+    try {
+      result = consume!(chunk);
+    } catch (err) {
+      return done(err);
+    }
+
+    if (!result) return;
+
+    // wait for the consumer before reading further
+    consuming = true;
+    stream.pause();
+    result.then(
+      function onConsumed() {
+        consuming = false;
+        if (!complete) stream.resume();
+      },
+      function onConsumeError(err) {
+        if (!complete) done(err);
+      },
+    );
+  }
+
   function onEnd(err: Error) {
     if (complete) return;
     if (err) return done(err);
@@ -247,6 +341,10 @@ function readStream(
   function cleanup() {
     buffer = null;
 
+    if (timer) clearTimeout(timer);
+    if (throughputTimer) clearInterval(throughputTimer);
+    if (signal) signal.removeEventListener('abort', onSignalAbort);
+
     stream.removeListener('aborted', onAborted);
     stream.removeListener('data', onData);
     stream.removeListener('end', onEnd);
@@ -255,6 +353,22 @@ function readStream(
   }
 }
 
+/**
+ * Get the error for reading cancelled with an `AbortSignal`. It has the shape of
+ * the `request.aborted` error, and the `name` and `code` of a DOM `AbortError`.
+ */
+export function getAbortError(signal: AbortSignal, length: number | null, received: number) {
+  return createError(400, 'request aborted', {
+    name: 'AbortError',
+    code: 'ABORT_ERR',
+    expected: length,
+    length: length,
+    received: received,
+    reason: signal.reason,
+    type: 'request.aborted',
+  });
+}
+
 /**
  * Wrap function with async resource, if possible.
  * AsyncResource.bind static method backported.
@@ -279,7 +393,7 @@ function wrap(fn: Fn) {
 /**
  * Halt a stream.
  */
-function halt(stream: Readable) {
+export function halt(stream: Readable) {
   // unpipe everything from the stream
   unpipe(stream);
 
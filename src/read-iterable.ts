@@ -0,0 +1,89 @@
+import iconv from 'iconv-lite';
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Readable } from 'node:stream';
+
+import read from './read.js';
+import { AsyncQueue } from './async-queue.js';
+import type { Fn, ReadOptions } from './types.js';
+
+/**
+ * The number of parsed values that are held in memory before reading is paused.
+ */
+const HIGH_WATER_MARK = 16;
+
+/**
+ * An incremental parser that is passed the decoded body chunk by chunk.
+ */
+export interface StreamParser {
+  write(str: string): void;
+  end(): void;
+}
+
+/**
+ * Read a request without buffering it, and return in a Promise an `AsyncIterable` of the values
+ * that are passed to `push` by the parser returned from `getParser()`. The body is decoded
+ * with the `encoding` option, and reading is paused while the consumer is behind.
+ *
+ * The Promise is rejected with the errors that occur before the first chunk of the body is read,
+ * later errors are thrown by the iteration. Stopping the iteration early cancels reading.
+ */
+export default function readIterable<T = any>(
+  req: Readable,
+  headers: IncomingHttpHeaders,
+  getParser: (push: (value: T) => void) => StreamParser,
+  debug: Fn,
+  opts: ReadOptions,
+): Promise<AsyncIterable<T>> {
+  const controller = new AbortController();
+  const values = new AsyncQueue<T>(HIGH_WATER_MARK, () => {
+    debug('iteration stopped');
+    controller.abort();
+  });
+  const parser = getParser((value) => values.push(value));
+  const decoder = iconv.getDecoder(opts.encoding || 'utf-8');
+
+  function parse() {
+    parser.write(decoder.end() || '');
+    parser.end();
+  }
+
+  return new Promise((resolve, reject) => {
+    let started = false;
+
+    read(req, headers, parse, debug, {
+      ...opts,
+      encoding: null,
+      signal: opts.signal ? AbortSignal.any([opts.signal, controller.signal]) : controller.signal,
+      onData(chunk) {
+        if (!started) {
+          started = true;
+          resolve(values);
+        }
+
+        parser.write(decoder.write(chunk));
+        return values.drain();
+      },
+    }).then(
+      () => {
+        values.end();
+        resolve(values);
+      },
+      (err) => {
+        if (started) {
+          values.fail(err);
+        } else {
+          reject(err);
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Get the values of a request that is not parsed.
+ */
+export function getEmptyIterable<T = any>(): AsyncIterable<T> {
+  const values = new AsyncQueue<T>();
+  values.end();
+  return values;
+}
@@ -10,14 +10,32 @@ import zlib from 'node:zlib';
 import type { IncomingHttpHeaders } from 'node:http';
 import type { Readable } from 'node:stream';
 import { AsyncResource } from 'async_hooks';
-import { Writable } from 'node:stream';
+import { Transform, Writable } from 'node:stream';
 
-import { getRawBody } from './raw-body.js';
+import { getRawBody, halt } from './raw-body.js';
 import unpipe from './unpipe.js';
 import type { Fn, ParseFn, ReadOptions } from './types.js';
 
 type ReqWithLength = Readable & { length?: string };
-export type ContentStream = zlib.Inflate | zlib.Gunzip | ReqWithLength;
+export type ContentStream = Transform | ReqWithLength;
+
+/**
+ * Zstandard decompression is available in `node:zlib` since Node.js v22.15.0 and v23.8.0.
+ */
+const createZstdDecompress: (() => Transform) | undefined = (zlib as any).createZstdDecompress;
+
+/**
+ * The number of bytes of the body read from a request.
+ */
+const bytesReadByRequest = new WeakMap<Readable, number>();
+
+/**
+ * Get the number of bytes of the body read from a request by `read()`,
+ * before decoding. Returns `undefined` if the body has not been read by `read()`.
+ */
+export function getBytesRead(req: Readable) {
+  return bytesReadByRequest.get(req);
+}
 
 /**
  * Read a request into a buffer and parse.
@@ -36,7 +54,7 @@ export default async function read<T = any>(
   const encoding = opts.encoding !== null ? opts.encoding : null;
   const verify = opts.verify;
 
-  stream = getContentStream(req, headers, debug, opts.inflate);
+  stream = getContentStream(req, headers, debug, opts);
   length = (stream as ReqWithLength).length;
   (stream as ReqWithLength).length = undefined;
 
@@ -44,6 +62,10 @@ export default async function read<T = any>(
   opts.length = length;
   opts.encoding = verify ? null : encoding;
 
+  if (stream !== req && opts.decompressedLimit !== undefined) {
+    opts.limit = opts.decompressedLimit;
+  }
+
   // assert charset is supported
   if (opts.encoding === null && encoding !== null && !iconv.encodingExists(encoding)) {
     throw createError(415, 'unsupported charset "' + encoding.toUpperCase() + '"', {
@@ -52,12 +74,18 @@ export default async function read<T = any>(
     });
   }
 
+  // count the bytes read from the request, before decoding
+  bytesReadByRequest.set(req, 0);
+  req.on('data', countBytes);
+
   // read body
   debug('read body');
   try {
     const buff = await getRawBody(stream as any, opts);
-    return cb(buff);
+    req.removeListener('data', countBytes);
+    return await cb(buff);
   } catch (error: any) {
+    req.removeListener('data', countBytes);
     return new Promise((resolve, reject) => {
       let _error: any;
 
@@ -78,6 +106,14 @@ export default async function read<T = any>(
         stream.destroy();
       }
 
+      // a slow client would hold the request open, and a cancelled read
+      // should not wait for it either
+      if (error.type === 'request.timeout' || error.type === 'request.too.slow' || error.name === 'AbortError') {
+        halt(req);
+        reject(_error);
+        return;
+      }
+
       // read off entire request
       dump(req, function onfinished() {
         const err = createError(400, _error);
@@ -86,7 +122,11 @@ export default async function read<T = any>(
     });
   }
 
-  function cb(body: Buffer): T {
+  function countBytes(chunk: Buffer) {
+    bytesReadByRequest.set(req, bytesReadByRequest.get(req)! + chunk.length);
+  }
+
+  function cb(body: Buffer): T | Promise<T> {
     // verify
     if (verify) {
       try {
@@ -118,43 +158,192 @@ export default async function read<T = any>(
 /**
  * Get the content stream of the request.
  */
-function getContentStream(req: Readable, headers: IncomingHttpHeaders, debug: Fn, inflate?: boolean): ContentStream {
+function getContentStream(req: Readable, headers: IncomingHttpHeaders, debug: Fn, opts: ReadOptions): ContentStream {
   const encoding = (headers['content-encoding'] || 'identity').toLowerCase();
   const length = headers['content-length'];
-  let stream: ContentStream;
+  const encodingLimit = opts.encodingLimit !== undefined ? opts.encodingLimit : 2;
+  const compressedLimit = opts.compressedLimit != null ? opts.compressedLimit : null;
+  const inflationRatioLimit = opts.inflationRatioLimit !== undefined ? opts.inflationRatioLimit : Infinity;
 
   debug('content-encoding "%s"', encoding);
 
-  if (inflate === false && encoding !== 'identity') {
+  // the codings are listed in the order they were applied
+  const codings = encoding
+    .split(',')
+    .map((coding) => coding.trim())
+    .filter((coding) => coding && coding !== 'identity');
+
+  if (!codings.length) {
+    const stream: ReqWithLength = req;
+    stream.length = length;
+    return stream;
+  }
+
+  if (opts.inflate === false) {
     throw createError(415, 'content encoding unsupported', {
       encoding: encoding,
       type: 'encoding.unsupported',
     });
   }
 
-  switch (encoding) {
+  if (codings.length > encodingLimit) {
+    debug('too many content encodings');
+    throw createError(415, 'too many content encodings', {
+      encoding,
+      limit: encodingLimit,
+      type: 'encodings.too.many',
+    });
+  }
+
+  // assert all the codings are supported before piping
+  codings.forEach(assertCoding);
+
+  // check the compressed length before piping
+  if (compressedLimit !== null && length !== undefined && Number(length) > compressedLimit) {
+    debug('compressed body too large');
+    throw createError(413, 'compressed request entity too large', {
+      expected: Number(length),
+      length: Number(length),
+      limit: compressedLimit,
+      type: 'entity.compressed.too.large',
+    });
+  }
+
+  const stages: [Transform, string?][] = codings.reverse().map((coding) => [getDecoder(coding, debug), coding]);
+
+  if (compressedLimit !== null || inflationRatioLimit !== Infinity) {
+    const meter = { compressed: 0, decompressed: 0 };
+    stages.unshift([getCompressedMeter(meter, compressedLimit)]);
+
+    if (inflationRatioLimit !== Infinity) {
+      stages.push([getInflationMeter(meter, inflationRatioLimit)]);
+    }
+  }
+
+  const stream = stages[stages.length - 1][0];
+  let source = req;
+
+  stages.forEach(([stage, coding]) => {
+    stage.on('error', function onDecodeError(err: any) {
+      // report the coding that failed, and pass errors along the chain
+      if (coding) {
+        err.encoding = err.encoding || coding;
+      }
+
+      if (stage !== stream) {
+        stream.destroy(err);
+      }
+    });
+
+    source.pipe(stage as Writable);
+    source = stage;
+  });
+
+  if (stages.length > 1) {
+    stream.once('close', function onclose() {
+      stages.forEach(([stage]) => stage.destroy());
+    });
+  }
+
+  return stream;
+}
+
+/**
+ * Get the stream that counts the bytes of the body before decoding
+ * and validates them against the limit.
+ */
+function getCompressedMeter(meter: { compressed: number }, limit: number | null) {
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      meter.compressed += chunk.length;
+
+      if (limit !== null && meter.compressed > limit) {
+        callback(
+          createError(413, 'compressed request entity too large', {
+            limit,
+            received: meter.compressed,
+            type: 'entity.compressed.too.large',
+          }),
+        );
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+}
+
+/**
+ * Get the stream that counts the bytes of the body after decoding
+ * and validates the ratio of decoded bytes to encoded bytes.
+ */
+function getInflationMeter(meter: { compressed: number; decompressed: number }, ratioLimit: number) {
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      meter.decompressed += chunk.length;
+
+      if (meter.decompressed > meter.compressed * ratioLimit) {
+        callback(
+          createError(413, 'request entity inflation ratio too large', {
+            limit: ratioLimit,
+            compressed: meter.compressed,
+            received: meter.decompressed,
+            type: 'entity.inflation.ratio',
+          }),
+        );
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+}
+
+/**
+ * Assert that a content coding is supported.
+ */
+function assertCoding(coding: string) {
+  switch (coding) {
     case 'deflate':
-      stream = zlib.createInflate();
-      debug('inflate body');
-      req.pipe(stream as Writable);
-      break;
     case 'gzip':
-      stream = zlib.createGunzip();
-      debug('gunzip body');
-      req.pipe(stream as Writable);
-      break;
-    case 'identity':
-      stream = req;
-      stream.length = length;
-      break;
+    case 'br':
+      return;
+    case 'zstd':
+      if (!createZstdDecompress) {
+        throw createError(
+          415,
+          `unsupported content encoding "${coding}": zlib.createZstdDecompress() is not available in Node.js ${process.version}`,
+          {
+            encoding: coding,
+            type: 'encoding.unsupported',
+          },
+        );
+      }
+      return;
     default:
-      throw createError(415, `unsupported content encoding "${encoding}"`, {
-        encoding,
+      throw createError(415, `unsupported content encoding "${coding}"`, {
+        encoding: coding,
         type: 'encoding.unsupported',
       });
   }
+}
 
-  return stream;
+/**
+ * Get the decompression stream for a supported content coding.
+ */
+function getDecoder(coding: string, debug: Fn): Transform {
+  switch (coding) {
+    case 'deflate':
+      debug('inflate body');
+      return zlib.createInflate();
+    case 'gzip':
+      debug('gunzip body');
+      return zlib.createGunzip();
+    case 'br':
+      debug('brotli decompress body');
+      return zlib.createBrotliDecompress();
+    default:
+      debug('zstd decompress body');
+      return createZstdDecompress!();
+  }
 }
 
 /**
@@ -0,0 +1,123 @@
+import assert from 'node:assert';
+import { Readable } from 'node:stream';
+
+import { peek, sniff } from './sniff.js';
+
+describe('sniff()', function () {
+  it('should detect JSON', function () {
+    assert.strictEqual(sniff(Buffer.from(' \n{"user":"tobi"}'))?.contentType, 'application/json');
+    assert.strictEqual(sniff(Buffer.from('["tobi"]'))?.reason, 'json');
+  });
+
+  it('should detect urlencoded', function () {
+    assert.strictEqual(sniff(Buffer.from('user=tobi&pet=cat'))?.contentType, 'application/x-www-form-urlencoded');
+    assert.strictEqual(sniff(Buffer.from('user%5Bname%5D=tobi'))?.reason, 'urlencoded');
+  });
+
+  it('should detect charset by BOM', function () {
+    const json = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('{"user":"tobi"}', 'utf16le')]);
+    assert.strictEqual(sniff(json)?.contentType, 'application/json; charset=utf-16le');
+
+    const text = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('the user is tobi')]);
+    assert.deepStrictEqual({ ...sniff(text) }, { contentType: 'text/plain; charset=utf-8', reason: 'bom' });
+  });
+
+  it('should detect magic numbers', function () {
+    const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+    assert.deepStrictEqual({ ...sniff(png) }, { contentType: 'image/png', reason: 'magic number' });
+    assert.strictEqual(sniff(Buffer.from('1f8b0800000000000003', 'hex'))?.contentType, 'application/gzip');
+    assert.strictEqual(sniff(Buffer.from('%PDF-1.7'))?.contentType, 'application/pdf');
+  });
+
+  it('should detect text', function () {
+    assert.strictEqual(sniff(Buffer.from('the user is tobi\n'))?.contentType, 'text/plain');
+  });
+
+  it('should detect text cut in the middle of a character', function () {
+    assert.strictEqual(sniff(Buffer.from('the user is 论').subarray(0, -1))?.contentType, 'text/plain');
+  });
+
+  it('should not detect binary data', function () {
+    assert.strictEqual(sniff(Buffer.from('000102030405', 'hex')), undefined);
+    assert.strictEqual(sniff(Buffer.from('')), undefined);
+  });
+});
+
+describe('peek()', function () {
+  it('should put back the peeked bytes', async function () {
+    const stream = Readable.from([Buffer.from('the user '), Buffer.from('is tobi')], { objectMode: false });
+    const buf = await peek(stream, 4);
+    assert.ok(buf.length >= 4);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    assert.strictEqual(Buffer.concat(chunks).toString(), 'the user is tobi');
+  });
+
+  it('should peek a stream shorter than the size', async function () {
+    const stream = Readable.from([Buffer.from('tobi')], { objectMode: false });
+    const buf = await peek(stream, 512);
+    assert.strictEqual(buf.toString(), 'tobi');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    assert.strictEqual(Buffer.concat(chunks).toString(), 'tobi');
+  });
+
+  it('should peek an empty stream', async function () {
+    const stream = Readable.from([], { objectMode: false });
+    const buf = await peek(stream, 512);
+    assert.strictEqual(buf.length, 0);
+    assert.ok(stream.readable);
+  });
+
+  it('should 408 when bytes are not received in time', async function () {
+    const stream = createStalledStream('tobi');
+
+    await assert.rejects(peek(stream, 512, { timeout: 100 }), (err: any) => {
+      assert.strictEqual(err.status, 408);
+      assert.strictEqual(err.type, 'request.timeout');
+      assert.strictEqual(err.received, 4);
+      return true;
+    });
+    assert.ok(stream.isPaused());
+    stream.destroy();
+  });
+
+  it('should 408 when bytes are received too slowly', async function () {
+    const stream = createStalledStream('tobi');
+
+    await assert.rejects(peek(stream, 512, { minBytesPerSecond: 100 }), (err: any) => {
+      assert.strictEqual(err.status, 408);
+      assert.strictEqual(err.type, 'request.too.slow');
+      return true;
+    });
+    stream.destroy();
+  });
+
+  it('should reject when the signal is aborted', async function () {
+    const stream = createStalledStream('tobi');
+
+    await assert.rejects(peek(stream, 512, { signal: AbortSignal.timeout(100) }), (err: any) => {
+      assert.strictEqual(err.name, 'AbortError');
+      assert.strictEqual(err.type, 'request.aborted');
+      return true;
+    });
+    stream.destroy();
+  });
+
+  it('should reject when the signal is already aborted', async function () {
+    const stream = createStalledStream('tobi');
+    await assert.rejects(peek(stream, 512, { signal: AbortSignal.abort() }), { name: 'AbortError' });
+    stream.destroy();
+  });
+});
+
+/**
+ * Create a stream that has the given bytes and then waits for more that never come.
+ */
+function createStalledStream(str: string) {
+  const stream = new Readable({ read() {} });
+  stream.push(str);
+  return stream;
+}
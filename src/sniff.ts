@@ -0,0 +1,212 @@
+import type { Readable } from 'node:stream';
+import createError from 'http-errors';
+import iconv from 'iconv-lite';
+
+import { getAbortError, halt } from './raw-body.js';
+
+/**
+ * The number of bytes at the beginning of a body that are used for sniffing.
+ */
+export const SNIFF_LENGTH = 512;
+
+/**
+ * RegExp to match the first `key=value` pair of an urlencoded body.
+ */
+const URLENCODED_REGEXP = /^[\w.~%+\-[\]]+=[\w.~%+\-[\]*!'(),:;/?@]*(?:&|$)/;
+
+/**
+ * RegExp to match text without control characters, except for whitespace.
+ */
+const TEXT_REGEXP = /^[^\x00-\x08\x0b\x0c\x0e-\x1f\x7f]*$/;
+
+const BOMS: [Buffer, string][] = [
+  [Buffer.from([0xef, 0xbb, 0xbf]), 'utf-8'],
+  [Buffer.from([0xfe, 0xff]), 'utf-16be'],
+  [Buffer.from([0xff, 0xfe]), 'utf-16le'],
+];
+
+const MAGIC_NUMBERS: [Buffer, string][] = [
+  [Buffer.from([0x1f, 0x8b]), 'application/gzip'],
+  [Buffer.from('%PDF-'), 'application/pdf'],
+  [Buffer.from([0x50, 0x4b, 0x03, 0x04]), 'application/zip'],
+  [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), 'image/png'],
+  [Buffer.from([0xff, 0xd8, 0xff]), 'image/jpeg'],
+  [Buffer.from('GIF87a'), 'image/gif'],
+  [Buffer.from('GIF89a'), 'image/gif'],
+];
+
+export interface SniffResult {
+  /**
+   * The media type detected from the body, with the `charset` parameter if it was detected from a BOM.
+   */
+  contentType: string;
+  /**
+   * What the media type was detected by: `'bom'`, `'magic number'`, `'json'`, `'urlencoded'` or `'text'`.
+   */
+  reason: string;
+}
+
+export interface PeekOptions {
+  /**
+   * The maximum time in milliseconds to wait for the bytes, a 408 with the `'request.timeout'`
+   * type is thrown after it.
+   */
+  timeout?: number;
+  /**
+   * The minimum number of bytes that must be received every second, a 408 with
+   * the `'request.too.slow'` type is thrown if the stream is slower.
+   */
+  minBytesPerSecond?: number;
+  /**
+   * Cancels waiting for the bytes, an error named `AbortError` is thrown then.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Detect the media type of a body by its first bytes. Returns `undefined` if nothing is detected.
+ */
+export function sniff(buf: Buffer): SniffResult | undefined {
+  for (const [magicNumber, contentType] of MAGIC_NUMBERS) {
+    if (startsWith(buf, magicNumber)) {
+      return { contentType, reason: 'magic number' };
+    }
+  }
+
+  let charset: string | undefined;
+
+  for (const [bom, bomCharset] of BOMS) {
+    if (startsWith(buf, bom)) {
+      charset = bomCharset;
+      break;
+    }
+  }
+
+  // a character cut at the end of the peeked bytes is decoded as a replacement character
+  const str = iconv
+    .decode(buf, charset || 'utf-8')
+    .trimStart()
+    .replace(/\uFFFD$/, '');
+  const parameters = charset ? `; charset=${charset}` : '';
+
+  if (str[0] === '{' || str[0] === '[') {
+    return { contentType: 'application/json' + parameters, reason: 'json' };
+  } else if (URLENCODED_REGEXP.test(str)) {
+    return { contentType: 'application/x-www-form-urlencoded' + parameters, reason: 'urlencoded' };
+  } else if (charset) {
+    return { contentType: 'text/plain' + parameters, reason: 'bom' };
+  } else if (str && TEXT_REGEXP.test(str) && !str.includes('\uFFFD')) {
+    return { contentType: 'text/plain', reason: 'text' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the first `size` bytes of a stream (or less, if the stream ends before), and put them back
+ * to the stream, so that they are read again by the next reader. On a timeout, a too slow stream
+ * or an aborted `signal`, the stream is halted and the peeked bytes are not put back.
+ */
+export function peek(stream: Readable, size = SNIFF_LENGTH, options: PeekOptions = {}): Promise<Buffer> {
+  const { timeout, minBytesPerSecond, signal } = options;
+  const state = (stream as any)._readableState;
+
+  if (signal && signal.aborted) {
+    return Promise.reject(getAbortError(signal, null, 0));
+  }
+
+  // listening to an ended stream would emit its end
+  if (state.ended && state.length === 0) {
+    return Promise.resolve(Buffer.alloc(0));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let lengthPerSecond = 0;
+    const timer = timeout ? setTimeout(onTimeout, timeout) : null;
+    const throughputTimer = minBytesPerSecond ? setInterval(onThroughputCheck, 1000) : null;
+
+    stream.on('readable', onReadable);
+    stream.on('error', onError);
+
+    if (signal) {
+      signal.addEventListener('abort', onSignalAbort);
+    }
+
+    function onReadable() {
+      let chunk: Buffer | null;
+
+      // reading at the end of the stream would emit the end,
+      // and the bytes must be put back before that
+      while (length < size && !(state.ended && state.length === 0) && (chunk = stream.read()) !== null) {
+        chunks.push(chunk);
+        length += chunk.length;
+        lengthPerSecond += chunk.length;
+      }
+
+      if (length >= size || state.ended) {
+        cleanup();
+        const buf = Buffer.concat(chunks);
+
+        if (buf.length) {
+          stream.unshift(buf);
+        }
+
+        resolve(buf);
+      }
+    }
+
+    function onTimeout() {
+      fail(
+        createError(408, 'request timeout', {
+          received: length,
+          timeout,
+          type: 'request.timeout',
+        }),
+      );
+    }
+
+    function onThroughputCheck() {
+      if (lengthPerSecond < minBytesPerSecond!) {
+        fail(
+          createError(408, 'request body too slow', {
+            received: length,
+            minBytesPerSecond,
+            type: 'request.too.slow',
+          }),
+        );
+      }
+
+      lengthPerSecond = 0;
+    }
+
+    function onSignalAbort() {
+      fail(getAbortError(signal!, null, length));
+    }
+
+    function fail(err: Error) {
+      cleanup();
+      halt(stream);
+      reject(err);
+    }
+
+    function onError(err: Error) {
+      cleanup();
+      reject(err);
+    }
+
+    function cleanup() {
+      if (timer) clearTimeout(timer);
+      if (throughputTimer) clearInterval(throughputTimer);
+      if (signal) signal.removeEventListener('abort', onSignalAbort);
+
+      stream.removeListener('readable', onReadable);
+      stream.removeListener('error', onError);
+    }
+  });
+}
+
+function startsWith(buf: Buffer, prefix: Buffer) {
+  return buf.length >= prefix.length && buf.compare(prefix, 0, prefix.length, 0, prefix.length) === 0;
+}
@@ -2,27 +2,56 @@ import { IncomingHttpHeaders } from 'node:http';
 import type { Readable } from 'node:stream';
 
 export type Fn = (...args: any[]) => any;
-export type ParseFn<T = any> = ((body: string) => T) | ((body: Buffer) => T);
+export type ParseFn<T = any> = ((body: string) => T | Promise<T>) | ((body: Buffer) => T | Promise<T>);
 export type VerifyFn = (req: Readable, buf: Buffer, encoding: string | null) => void;
 export interface ReadOptions {
   encoding: string | null;
   inflate?: boolean;
+  encodingLimit?: number;
   limit?: number | string;
+  compressedLimit?: number | null;
+  decompressedLimit?: number;
+  inflationRatioLimit?: number;
   verify?: VerifyFn | false;
   debug?: Fn;
   length?: string;
+  timeout?: number;
+  minBytesPerSecond?: number;
+  signal?: AbortSignal;
+  onData?: (chunk: Buffer) => void | Promise<void>;
 }
 /**
  * The function type returned by get*Parser() factories.
  */
 export interface BodyParser {
-  <T = any>(req: Readable, headers: IncomingHttpHeaders): Promise<T>;
+  /**
+   * @param signal Cancels reading of the body; the returned promise is then rejected
+   * with an error named `AbortError`.
+   */
+  <T = any>(req: Readable, headers: IncomingHttpHeaders, signal?: AbortSignal): Promise<T>;
 }
 
 export interface BodyParserWithoutCheck extends BodyParser {
   shouldParse: (headers: IncomingHttpHeaders) => boolean;
 }
 
+/**
+ * The part of a web `Request` that is used to read its body.
+ */
+export interface WebRequest {
+  headers: Headers;
+  body: ReadableStream<Uint8Array> | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * The function type returned by `getWebParser()`.
+ */
+export interface WebBodyParser {
+  <T = any>(request: WebRequest, signal?: AbortSignal): Promise<T>;
+  <T = any>(body: ReadableStream<Uint8Array> | null, headers: Headers, signal?: AbortSignal): Promise<T>;
+}
+
 export type ReviverFn = (key: string, value: any) => any;
 
 export interface BaseOptions {
@@ -31,12 +60,55 @@ export interface BaseOptions {
    * when `false`, deflated bodies are rejected. Defaults to `true`.
    */
   inflate?: boolean;
+  /**
+   * The `encodingLimit` option controls the maximum number of content codings
+   * that can be stacked in the `Content-Encoding` header (like `deflate, gzip`).
+   * If a request contains more codings than this value, a 415 will be returned
+   * to the client. Defaults to `2`.
+   */
+  encodingLimit?: number;
   /**
    * Controls the maximum request body size. If this is a number, then the value
    * specifies the number of bytes; if it is a string, the value is passed to the
    * [bytes](https://www.npmjs.com/package/bytes) library for parsing. Defaults to `'100kb'`.
+   *
+   * For bodies with a `Content-Encoding`, the limit is checked against the decoded bytes,
+   * unless the `decompressedLimit` option is set.
    */
   limit?: number | string;
+  /**
+   * Controls the maximum size of a body with a `Content-Encoding` before it is decoded,
+   * i.e. the number of bytes on the wire. The value is a number of bytes, or a string
+   * for the [bytes](https://www.npmjs.com/package/bytes) library. If the body is larger,
+   * a 413 with the `'entity.compressed.too.large'` type is returned. Not limited by default.
+   */
+  compressedLimit?: number | string;
+  /**
+   * Controls the maximum size of a body with a `Content-Encoding` after it is decoded.
+   * The value is a number of bytes, or a string for the [bytes](https://www.npmjs.com/package/bytes)
+   * library. It is checked while the body is decoded, instead of the `limit` option.
+   * Defaults to the value of the `limit` option.
+   */
+  decompressedLimit?: number | string;
+  /**
+   * Controls the maximum ratio of decoded bytes to encoded bytes of a body with
+   * a `Content-Encoding`. It is checked while the body is decoded, so that
+   * a decompression bomb is aborted early with a 413 and the `'entity.inflation.ratio'`
+   * type. Not limited by default.
+   */
+  inflationRatioLimit?: number;
+  /**
+   * Controls the maximum time in milliseconds to read the request body. If the body
+   * has not been read in time, a 408 with the `'request.timeout'` type is returned.
+   * Not limited by default.
+   */
+  timeout?: number;
+  /**
+   * Controls the minimum number of bytes of the request body that must be received
+   * every second, to defend against clients that send the body slowly. If the client
+   * is slower, a 408 with the `'request.too.slow'` type is returned. Not limited by default.
+   */
+  minBytesPerSecond?: number;
   /**
    * The `verify` option, if supplied, is called as `verify(req, buf, encoding)`,
    * where `buf` is a `Buffer` of the raw request body and `encoding` is the
@@ -45,7 +117,25 @@ export interface BaseOptions {
   verify?: VerifyFn;
 }
 
-export interface RawOptions extends BaseOptions {
+/**
+ * What is returned for a request without a body, or with an empty body.
+ */
+export type EmptyBodyAction = 'object' | 'null' | 'undefined' | 'error';
+
+export interface EmptyBodyOptions {
+  /**
+   * What the parser returns for a request without a body, or with a body of zero length:
+   * `{}` (`'object'`), `null` (`'null'`) or `undefined` (`'undefined'`); with `'error'`,
+   * a 400 with the `'entity.empty'` type is returned.
+   *
+   * When not set, a request without a body gives `{}`, and a body of zero length gives `{}`
+   * for the `json` and `urlencoded` parsers, an empty string for the `text` parser and
+   * an empty `Buffer` for the `raw` parser.
+   */
+  emptyBody?: EmptyBodyAction;
+}
+
+export interface RawOptions extends BaseOptions, EmptyBodyOptions {
   /**
    * The `type` option is used to determine what media type the parser will
    * parse. This option can be a string, array of strings, or a function.
@@ -60,7 +150,85 @@ export interface RawOptions extends BaseOptions {
   type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
 }
 
-export interface JsonOptions extends BaseOptions {
+/**
+ * The limits of the structure of a JSON document. They are checked before the document is
+ * parsed (or while it is read, for streamed documents), and if one is exceeded, a 413 is
+ * returned with the `limit` of the option and the `path` of the value that exceeded it.
+ */
+export interface JsonLimitOptions {
+  /**
+   * Controls the maximum number of nested objects and arrays. If the document is nested
+   * deeper, the error has the `'entity.depth.exceeded'` type. Not limited by default.
+   */
+  maxDepth?: number;
+  /**
+   * Controls the maximum number of keys of one object. If an object has more keys,
+   * the error has the `'entity.keys.exceeded'` type. Not limited by default.
+   */
+  maxKeys?: number;
+  /**
+   * Controls the maximum number of items of one array. If an array has more items,
+   * the error has the `'entity.array.length.exceeded'` type. Not limited by default.
+   */
+  maxArrayLength?: number;
+  /**
+   * Controls the maximum number of characters of one string, including the keys of objects;
+   * an escape sequence is counted as one character. If a string is longer, the error has
+   * the `'entity.string.length.exceeded'` type. Not limited by default.
+   */
+  maxStringLength?: number;
+}
+
+/**
+ * What is done with a key of a parsed object that could change the prototype of objects.
+ */
+export type PrototypeAction = 'error' | 'remove' | 'ignore';
+
+/**
+ * Which value of a key that occurs more than once in a JSON object is kept.
+ */
+export type DuplicateKeysAction = 'last' | 'first' | 'error';
+
+/**
+ * How the numbers of a JSON document are parsed: as a `number`, with the integers that
+ * are not safe as a `bigint` (`'bigint'`) or as their text (`'string'`), or with a function
+ * that is called with the text of every number.
+ */
+export type JsonNumbersOption = 'number' | 'bigint' | 'string' | ((source: string) => any);
+
+export interface JsonOptions extends BaseOptions, JsonLimitOptions, EmptyBodyOptions {
+  /**
+   * What to do with `__proto__` keys of parsed objects: with `'error'`, a 400 with
+   * the `'entity.parse.prototype'` type is returned; with `'remove'`, the keys are removed;
+   * with `'ignore'`, they are kept. Defaults to `'ignore'`.
+   *
+   * The parsed objects are only scanned if the body contains such a key.
+   */
+  protoAction?: PrototypeAction;
+  /**
+   * What to do with `constructor` keys of parsed objects whose value has a `prototype` key,
+   * the same way as the `protoAction` option. Defaults to `'ignore'`.
+   */
+  constructorAction?: PrototypeAction;
+  /**
+   * What to do with keys that occur more than once in an object: with `'last'`, the last
+   * value is kept, as `JSON.parse` does; with `'first'`, the first value is kept; with `'error'`,
+   * a 400 with the `'entity.parse.duplicate'` type is returned. Defaults to `'last'`.
+   *
+   * The body is only scanned for duplicate keys if the option is not `'last'`.
+   */
+  duplicateKeys?: DuplicateKeysAction;
+  /**
+   * How numbers are parsed. With `'number'`, they are parsed as `JSON.parse` does, and lose
+   * precision beyond `Number.MAX_SAFE_INTEGER`. With `'bigint'`, integers that are not safe
+   * are parsed as a `bigint`; with `'string'`, they are kept as their text. With both, other
+   * numbers that can't be represented exactly, like decimals with many digits, are kept as
+   * their text. With a function, it is called with the text of every number and its result
+   * is used. Defaults to `'number'`.
+   *
+   * The numbers are converted before the `reviver` is called.
+   */
+  numbers?: JsonNumbersOption;
   /**
    * The `reviver` option is passed directly to `JSON.parse` as the second argument.
    * You can find more information on this argument [in the MDN documentation about JSON.parse][1].
@@ -86,7 +254,239 @@ export interface JsonOptions extends BaseOptions {
   type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
 }
 
-export interface TextOptions extends BaseOptions {
+export interface JsonStreamOptions extends Omit<BaseOptions, 'limit' | 'verify'>, JsonLimitOptions {
+  /**
+   * Controls the maximum request body size, i.e. the size of the whole document.
+   * If this is a number, then the value specifies the number of bytes; if it is a string,
+   * the value is passed to the [bytes](https://www.npmjs.com/package/bytes) library
+   * for parsing. Defaults to `'100mb'`.
+   */
+  limit?: number | string;
+  /**
+   * The path of the values that are returned, like `$.items[*]`. A path is made of
+   * `.name` or `['name']` for the value of a key, `[0]` for an item of an array,
+   * and `.*` or `[*]` for any key or item. Defaults to `'$[*]'`, i.e. the items
+   * of the top-level array.
+   */
+  select?: string;
+  /**
+   * Controls the maximum size of one selected value, measured in bytes of UTF-8.
+   * If this is a number, then the value specifies the number of bytes; if it is a string,
+   * the value is passed to the [bytes](https://www.npmjs.com/package/bytes) library
+   * for parsing. If a value is larger, a 413 with the `'record.too.large'` type is returned.
+   * Defaults to `'100kb'`.
+   */
+  recordLimit?: number | string;
+  /**
+   * The `reviver` option is passed directly to `JSON.parse` as the second argument,
+   * for every selected value.
+   */
+  reviver?: ReviverFn;
+  /**
+   * When set to `true`, will only accept arrays and objects as the top-level value; when `false`
+   * will accept anything `JSON.parse` accepts. Defaults to `true`.
+   */
+  strict?: boolean;
+  /**
+   * The `type` option is used to determine what media type the parser will
+   * parse. This option can be a string, array of strings, or a function. If not
+   * a function, `type` option is passed directly to the `typeIs()` function.
+   * If a function, the `type` option is called as `fn(headers)` and the headers
+   * is parsed if it returns a truthy value. Defaults to `application/json`.
+   */
+  type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
+}
+
+/**
+ * Decodes the data of a MessagePack extension type to a value.
+ */
+export type MsgpackExtensionFn = (data: Buffer, type: number) => any;
+
+export interface MsgpackOptions extends BaseOptions, JsonLimitOptions, EmptyBodyOptions {
+  /**
+   * Decoders of extension types, by type number (`-128` to `127`). The timestamp extension
+   * type (`-1`) is decoded to a `Date` by default. A body with an extension type without
+   * a decoder is rejected with a 400.
+   *
+   * With the limit options, maps and arrays are limited the same way as objects and arrays
+   * of JSON, and the `maxStringLength` option limits the number of bytes of strings and
+   * binary data. Unlike JSON, they are limited by default: `maxDepth` to `100`, `maxKeys`
+   * to `10000`, `maxArrayLength` to `100000` and `maxStringLength` to 1 MiB.
+   */
+  extensions?: Record<number, MsgpackExtensionFn>;
+  /**
+   * When set to `true`, will only accept maps and arrays; when `false` will accept
+   * any value at the top level. Defaults to `true`.
+   */
+  strict?: boolean;
+  /**
+   * The `type` option is used to determine what media type the parser will
+   * parse. This option can be a string, array of strings, or a function. If not a
+   * function, `type` option is passed directly to the `typeIs()`
+   * function. If a function, the `type` option is called as `fn(headers)` and the headers
+   * is parsed if it returns a truthy value. Defaults to `application/msgpack`,
+   * `application/x-msgpack` and `application/vnd.msgpack`.
+   */
+  type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
+}
+
+/**
+ * Decodes the value of a CBOR tag.
+ */
+export type CborTagFn = (value: any, tag: number) => any;
+
+export interface CborOptions extends BaseOptions, JsonLimitOptions, EmptyBodyOptions {
+  /**
+   * Decoders of tags, by tag number. By default, date/time strings (tag `0`) and epoch-based
+   * dates (tag `1`) are decoded to a `Date`, and bignums (tags `2` and `3`) to a `bigint`;
+   * the value of other tags is returned unchanged.
+   *
+   * With the limit options, maps and arrays are limited the same way as objects and arrays
+   * of JSON, and the `maxStringLength` option limits the number of bytes of text and byte
+   * strings, including all chunks of indefinite-length strings. Unlike JSON, they are
+   * limited by default: `maxDepth` to `100`, `maxKeys` to `10000`, `maxArrayLength` to
+   * `100000` and `maxStringLength` to 1 MiB.
+   */
+  tags?: Record<number, CborTagFn>;
+  /**
+   * When set to `true`, indefinite-length strings, arrays and maps are accepted; otherwise
+   * they are rejected with a 400. Defaults to `false`.
+   */
+  indefiniteLength?: boolean;
+  /**
+   * When set to `true`, will only accept maps and arrays; when `false` will accept
+   * any value at the top level. Defaults to `true`.
+   */
+  strict?: boolean;
+  /**
+   * The `type` option is used to determine what media type the parser will
+   * parse. This option can be a string, array of strings, or a function. If not a
+   * function, `type` option is passed directly to the `typeIs()`
+   * function. If a function, the `type` option is called as `fn(headers)` and the headers
+   * is parsed if it returns a truthy value. Defaults to `application/cbor` and
+   * the `+cbor` structured syntax suffix.
+   */
+  type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
+}
+
+/**
+ * An element of the lightweight DOM returned by the `xml` parser with `output: 'dom'`.
+ */
+export interface XmlElement {
+  type: 'element';
+  /**
+   * The qualified name of the element, like `soap:Envelope`.
+   */
+  name: string;
+  localName: string;
+  prefix: string | null;
+  /**
+   * The namespace of the element, or `null` if it has no namespace or the `namespaces`
+   * option is `false`.
+   */
+  namespaceURI: string | null;
+  /**
+   * The attributes of the element by qualified name, including namespace declarations.
+   */
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+/**
+ * Text of an element, with adjacent text and CDATA sections merged.
+ */
+export interface XmlText {
+  type: 'text';
+  value: string;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+export interface XmlOptions extends BaseOptions, EmptyBodyOptions {
+  /**
+   * What the parser returns: with `'object'`, a plain object with the name of the root
+   * element as the only key; with `'dom'`, the root `XmlElement`. Defaults to `'object'`.
+   *
+   * In a plain object, an element without attributes and child elements is its text;
+   * otherwise it is an object with the attributes prefixed with `@`, the child elements
+   * by name (an array if there are several with the same name), and the trimmed text
+   * as `#text` if it is not blank.
+   */
+  output?: 'object' | 'dom';
+  /**
+   * When set to `true`, a DOCTYPE is accepted, and the internal entities declared in it
+   * are expanded. External entities and parameter entities are never loaded or expanded;
+   * a reference to them is rejected with a 400. Defaults to `false`, and a body with
+   * a DOCTYPE is rejected with a 400.
+   */
+  allowDoctype?: boolean;
+  /**
+   * When set to `true`, namespace prefixes must be declared, and the elements of the DOM
+   * get their namespace. Defaults to `true`.
+   */
+  namespaces?: boolean;
+  /**
+   * Controls the maximum number of nested elements. Defaults to `100`, like the depth
+   * of MessagePack and CBOR bodies.
+   */
+  maxDepth?: number;
+  /**
+   * Controls the maximum number of references to declared entities that are expanded,
+   * including references in the values of other entities. Defaults to `1000`.
+   */
+  maxEntityExpansions?: number;
+  /**
+   * Controls the maximum number of characters produced by expanding declared entities.
+   * Defaults to `100000`.
+   */
+  maxExpandedLength?: number;
+  /**
+   * The `type` option is used to determine what media type the parser will
+   * parse. This option can be a string, array of strings, or a function. If not a
+   * function, `type` option is passed directly to the `typeIs()`
+   * function. If a function, the `type` option is called as `fn(headers)` and the headers
+   * is parsed if it returns a truthy value. Defaults to `application/xml`, `text/xml`
+   * and the `+xml` structured syntax suffix.
+   */
+  type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
+}
+
+export interface NdjsonOptions extends Omit<BaseOptions, 'limit' | 'verify'> {
+  /**
+   * Controls the maximum request body size, i.e. the total size of all records.
+   * If this is a number, then the value specifies the number of bytes; if it is a string,
+   * the value is passed to the [bytes](https://www.npmjs.com/package/bytes) library
+   * for parsing. Defaults to `'100mb'`.
+   */
+  limit?: number | string;
+  /**
+   * Controls the maximum size of one record, measured in bytes of UTF-8. If this is
+   * a number, then the value specifies the number of bytes; if it is a string, the value
+   * is passed to the [bytes](https://www.npmjs.com/package/bytes) library for parsing.
+   * If a record is larger, a 413 with the `'record.too.large'` type is returned.
+   * Defaults to `'100kb'`.
+   */
+  recordLimit?: number | string;
+  /**
+   * The `reviver` option is passed directly to `JSON.parse` as the second argument,
+   * for every record.
+   */
+  reviver?: ReviverFn;
+  /**
+   * The `type` option is used to determine what media type the parser will
+   * parse. This option can be a string, array of strings, or a function. If not
+   * a function, `type` option is passed directly to the `typeIs()` function.
+   * If a function, the `type` option is called as `fn(headers)` and the headers
+   * is parsed if it returns a truthy value. Defaults to `application/x-ndjson`,
+   * `application/jsonl`, `application/x-jsonlines` and `application/json-seq`.
+   *
+   * Records of `application/json-seq` bodies are separated by the `RS` character,
+   * as defined in RFC 7464, and records of other bodies are separated by line breaks.
+   */
+  type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
+}
+
+export interface TextOptions extends BaseOptions, EmptyBodyOptions {
   /**
    * Specify the default character set for the text content if the charset is not
    * specified in the `Content-Type` header of the request. Defaults to `utf-8`.
@@ -105,7 +505,7 @@ export interface TextOptions extends BaseOptions {
   type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
 }
 
-export interface UrlencodedOptions extends BaseOptions {
+export interface UrlencodedOptions extends BaseOptions, EmptyBodyOptions {
   /**
    * The `extended` option allows to choose between parsing the URL-encoded data
    * with the `querystring` library (when `false`) or the `qs` library (when
@@ -123,6 +523,10 @@ export interface UrlencodedOptions extends BaseOptions {
    * than this value, a 413 will be returned to the client. Defaults to `1000`.
    */
   parameterLimit?: number;
+  /**
+   * Options passed to the `qs` library when `extended` is `true`.
+   */
+  qsOptions?: UrlencodedQsOptions;
   /**
    * The `type` option is used to determine what media type the parser will
    * parse. This option can be a string, array of strings, or a function. If not
@@ -136,3 +540,190 @@ export interface UrlencodedOptions extends BaseOptions {
    */
   type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
 }
+
+/**
+ * The options of the `qs` library that can be set for the `extended` mode of the `urlencoded` parser.
+ */
+export interface UrlencodedQsOptions {
+  /**
+   * The maximum nesting of a key, like `a[b][c]` (a depth of `2`). A body with a deeper
+   * key is rejected with a 400. Defaults to `5`.
+   */
+  depth?: number;
+  /**
+   * Allow keys that overwrite properties of `Object.prototype`, like `hasOwnProperty`.
+   * If `false`, such keys are ignored. Defaults to `false`.
+   */
+  allowPrototypes?: boolean;
+  /**
+   * Parse dot notation, like `a.b=c`, as nested objects. Defaults to `false`.
+   */
+  allowDots?: boolean;
+  /**
+   * Parse comma-separated values, like `a=b,c`, as arrays. Defaults to `false`.
+   */
+  comma?: boolean;
+  /**
+   * The maximum index of an array, like `a[100]`; keys with a larger index are parsed
+   * as keys of an object. Defaults to the number of parameters of the body, but at least `100`.
+   */
+  arrayLimit?: number;
+  /**
+   * Parse keys like `a[]` and `a[0]` as arrays. If `false`, they are parsed as keys
+   * of an object. Defaults to `true`.
+   */
+  parseArrays?: boolean;
+  /**
+   * How to handle duplicate keys: combine the values into an array (`'combine'`),
+   * or keep the `'first'` or `'last'` value. Defaults to `'combine'`.
+   */
+  duplicates?: 'combine' | 'first' | 'last';
+  /**
+   * Parse a key without `=`, like `a&b=`, as `null` instead of an empty string. Defaults to `false`.
+   */
+  strictNullHandling?: boolean;
+}
+
+export interface MultipartOptions extends BaseOptions {
+  /**
+   * Specify the default character set for the values of the fields if the charset is not
+   * specified in the `Content-Type` header of the part or of the request. Defaults to `utf-8`.
+   */
+  defaultCharset?: string;
+  /**
+   * The `fieldLimit` option controls the maximum number of non-file fields that
+   * are allowed in the multipart data. If a request contains more fields than
+   * this value, a 413 will be returned to the client. Defaults to `1000`.
+   */
+  fieldLimit?: number;
+  /**
+   * The `fileLimit` option controls the maximum number of files that are allowed
+   * in the multipart data. If a request contains more files than this value,
+   * a 413 will be returned to the client. Defaults to `Infinity`.
+   */
+  fileLimit?: number;
+  /**
+   * Controls the maximum size of the value of a non-file field. If this is a number,
+   * then the value specifies the number of bytes; if it is a string, the value is passed
+   * to the [bytes](https://www.npmjs.com/package/bytes) library for parsing. Defaults to `'100kb'`.
+   */
+  fieldSizeLimit?: number | string;
+  /**
+   * Controls the maximum size of a file. If this is a number, then the value specifies
+   * the number of bytes; if it is a string, the value is passed to the
+   * [bytes](https://www.npmjs.com/package/bytes) library for parsing. Defaults to `Infinity`,
+   * so only the `limit` option applies.
+   */
+  fileSizeLimit?: number | string;
+  /**
+   * The storage engine for the files. Defaults to `new MemoryStorage()`, so the content
+   * of a file is in the `buffer` property of the file. When the body is rejected,
+   * the files already passed to the storage engine are removed with `removeFile()`.
+   */
+  storage?: StorageEngine;
+  /**
+   * The `verify` option, if supplied, is called as `verify(req, buf, encoding)`,
+   * where `buf` is a `Buffer` of the raw request body and `encoding` is the
+   * encoding of the request. The parsing can be aborted by throwing an error.
+   * With this option, the body is read into memory and its parts are passed
+   * to the storage engine only after `verify` accepts it.
+   */
+  verify?: VerifyFn;
+  /**
+   * The `type` option is used to determine what media type the parser will
+   * parse. This option can be a string, array of strings, or a function. If not
+   * a function, `type` option is passed directly to the
+   * `typeIs()` function and this can
+   * be an extension name (like `multipart`), a mime type (like `multipart/form-data`),
+   * or a mime type with a wildcard (like `multipart/*`). If a function, the `type`
+   * option is called as `fn(headers)` and the headers is parsed if it returns a
+   * truthy value. Defaults to `multipart/form-data`.
+   */
+  type?: string | string[] | ((headers: IncomingHttpHeaders) => boolean);
+}
+
+/**
+ * A file uploaded with `multipart/form-data`.
+ */
+export interface MultipartFile {
+  /**
+   * The name of the field in the form.
+   */
+  fieldname: string;
+  /**
+   * The name of the file on the user's computer.
+   */
+  originalname: string;
+  /**
+   * The transfer encoding of the file.
+   */
+  encoding: string;
+  /**
+   * The mime type of the file.
+   */
+  mimetype: string;
+  /**
+   * The size of the file in bytes.
+   */
+  size: number;
+  /**
+   * The content of the file (`MemoryStorage`).
+   */
+  buffer?: Buffer;
+  /**
+   * The directory where the file is saved (`DiskStorage`).
+   */
+  destination?: string;
+  /**
+   * The name of the file within the `destination` (`DiskStorage`).
+   */
+  filename?: string;
+  /**
+   * The full path to the saved file (`DiskStorage`).
+   */
+  path?: string;
+}
+
+/**
+ * A storage engine for files uploaded with `multipart/form-data`.
+ */
+export interface StorageEngine {
+  /**
+   * Stores a file, that is passed as a `Readable` while the body is being read.
+   * The parser waits for the returned promise, and the properties the promise
+   * is resolved with are assigned to the file. Throw (or reject) to abort parsing.
+   *
+   * The `size` of the file is known only after the stream ends.
+   */
+  handleFile(file: MultipartFile, stream: Readable): Promise<Partial<MultipartFile> | void>;
+  /**
+   * Removes a file that was stored with `handleFile()`. It is called when the body
+   * is rejected after the file was stored.
+   */
+  removeFile(file: MultipartFile): Promise<void>;
+}
+
+export interface DiskStorageOptions {
+  /**
+   * The directory where the files are saved. Defaults to the temporary directory
+   * of the operating system (`os.tmpdir()`).
+   */
+  directory?: string;
+  /**
+   * Returns the name of the file within the `directory`. Defaults to a random name
+   * without extension, because the original name of a file is untrusted.
+   */
+  filename?: (file: MultipartFile) => string;
+}
+
+/**
+ * The body returned by the parser from `getMultipartParser()`.
+ */
+export interface MultipartBody<T = any> {
+  /**
+   * The values of the non-file fields. When a field occurs several times,
+   * its values are collected in an array.
+   */
+  fields: T;
+  files: MultipartFile[];
+}
@@ -1,7 +1,13 @@
 import { IncomingHttpHeaders } from 'http';
+import bytes from 'bytes';
 import contentType from 'content-type';
+import createError from 'http-errors';
 import { typeIs } from '@ts-stack/type-is';
 
+import type { BaseOptions, EmptyBodyAction } from './types.js';
+
+const EMPTY_BODY_ACTIONS: EmptyBodyAction[] = ['object', 'null', 'undefined', 'error'];
+
 /**
  * Get the simple type checker.
  */
@@ -23,3 +29,130 @@ export function getCharset(headers: IncomingHttpHeaders) {
     return undefined;
   }
 }
+
+/**
+ * Get the function that returns the body of a request without a body, or with an empty body,
+ * for the `emptyBody` option. With `'error'`, the function throws a 400.
+ */
+export function getEmptyBody(emptyBody: EmptyBodyAction = 'object') {
+  if (!EMPTY_BODY_ACTIONS.includes(emptyBody)) {
+    throw new TypeError('option emptyBody must be "object", "null", "undefined" or "error"');
+  }
+
+  return function (): any {
+    switch (emptyBody) {
+      case 'null':
+        return null;
+      case 'undefined':
+        return undefined;
+      case 'error':
+        throw createError(400, 'request body is empty', {
+          type: 'entity.empty',
+        });
+      default:
+        return {};
+    }
+  };
+}
+
+/**
+ * Get a count limit option.
+ */
+export function getCountLimit(name: string, value: number | undefined, defaultValue: number) {
+  let count = value !== undefined ? value : defaultValue;
+
+  if (isNaN(count) || count < 0) {
+    throw new TypeError(`option ${name} must be a non-negative number`);
+  }
+
+  if (isFinite(count)) {
+    count = count | 0;
+  }
+
+  return count;
+}
+
+/**
+ * Get a size limit option in bytes.
+ */
+export function getSizeLimit(value: number | string | undefined, defaultValue: number | string) {
+  if (value === undefined) {
+    value = defaultValue;
+  }
+
+  return typeof value != 'number' ? bytes.parse(value) : value;
+}
+
+/**
+ * Get the options of reading and decoding a body, that are common to all parsers,
+ * with the given default of the `limit` option.
+ */
+export function getReadOptions(
+  opts: Pick<
+    BaseOptions,
+    | 'inflate'
+    | 'encodingLimit'
+    | 'limit'
+    | 'compressedLimit'
+    | 'decompressedLimit'
+    | 'inflationRatioLimit'
+    | 'timeout'
+    | 'minBytesPerSecond'
+  >,
+  defaultLimit: number | string,
+) {
+  const inflate = opts.inflate !== false;
+  const encodingLimit = opts.encodingLimit !== undefined ? opts.encodingLimit : 2;
+  const limit = getSizeLimit(opts.limit, defaultLimit);
+  const compressedLimit = opts.compressedLimit === undefined ? null : getSizeLimit(opts.compressedLimit, Infinity);
+  const decompressedLimit = getSizeLimit(opts.decompressedLimit, limit);
+  const inflationRatioLimit = opts.inflationRatioLimit !== undefined ? opts.inflationRatioLimit : Infinity;
+  const timeout = opts.timeout;
+  const minBytesPerSecond = opts.minBytesPerSecond;
+
+  if (isNaN(encodingLimit) || encodingLimit < 1) {
+    throw new TypeError('option encodingLimit must be a positive number');
+  }
+
+  if (isNaN(inflationRatioLimit) || inflationRatioLimit <= 0) {
+    throw new TypeError('option inflationRatioLimit must be a positive number');
+  }
+
+  if (timeout !== undefined && (isNaN(timeout) || timeout <= 0)) {
+    throw new TypeError('option timeout must be a positive number');
+  }
+
+  if (minBytesPerSecond !== undefined && (isNaN(minBytesPerSecond) || minBytesPerSecond <= 0)) {
+    throw new TypeError('option minBytesPerSecond must be a positive number');
+  }
+
+  return {
+    inflate,
+    encodingLimit,
+    limit,
+    compressedLimit,
+    decompressedLimit,
+    inflationRatioLimit,
+    timeout,
+    minBytesPerSecond,
+  };
+}
+
+/**
+ * Convert a decoded 64-bit integer to a `number` if it is safe.
+ */
+export function toSafeNumber(value: bigint) {
+  const num = Number(value);
+  return Number.isSafeInteger(num) ? num : value;
+}
+
+/**
+ * Set a property of a decoded map, as an own property even for `__proto__`.
+ */
+export function setOwnProperty(obj: any, key: string, value: any) {
+  if (key === '__proto__') {
+    Object.defineProperty(obj, key, { value, writable: true, enumerable: true, configurable: true });
+  } else {
+    obj[key] = value;
+  }
+}
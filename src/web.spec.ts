@@ -0,0 +1,139 @@
+import assert from 'node:assert';
+import zlib from 'node:zlib';
+
+import { fromWeb, getWebParser } from './web.js';
+import { getJsonParser } from './parsers/json.js';
+import { getRawParser } from './parsers/raw.js';
+import { getTextParser } from './parsers/text.js';
+
+describe('getWebParser()', function () {
+  it('should parse Request', async function () {
+    const webParser = getWebParser(getJsonParser());
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"user":"tobi"}',
+    });
+
+    const body = await webParser(request);
+    assert.strictEqual(JSON.stringify(body), '{"user":"tobi"}');
+  });
+
+  it('should parse ReadableStream with Headers', async function () {
+    const webParser = getWebParser(getTextParser());
+    const headers = new Headers({ 'Content-Type': 'text/plain; charset=iso-8859-1', 'Content-Length': '3' });
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new Uint8Array([0x63, 0x61, 0xe9]));
+        controller.close();
+      },
+    });
+
+    const body = await webParser(stream, headers);
+    assert.strictEqual(body, 'caé');
+  });
+
+  it('should skip Request without body', async function () {
+    const webParser = getWebParser(getJsonParser());
+    const request = new Request('http://localhost/', {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const body = await webParser(request);
+    assert.strictEqual(JSON.stringify(body), '{}');
+  });
+
+  it('should 413 when over limit', async function () {
+    const webParser = getWebParser(getRawParser({ limit: '1kb' }));
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(1028),
+    });
+
+    await assert.rejects(webParser(request), (err: any) => {
+      assert.strictEqual(err.status, 413);
+      assert.strictEqual(err.type, 'entity.too.large');
+      return true;
+    });
+  });
+
+  it('should inflate body', async function () {
+    const webParser = getWebParser(getJsonParser());
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' },
+      body: zlib.gzipSync('{"name":"论"}'),
+    });
+
+    const body = await webParser(request);
+    assert.strictEqual(body.name, '论');
+  });
+
+  it('should verify body', async function () {
+    const webParser = getWebParser(
+      getJsonParser({
+        verify(req, buf) {
+          if (buf[0] === 0x5b) throw new Error('no arrays');
+        },
+      }),
+    );
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '["tobi"]',
+    });
+
+    await assert.rejects(webParser(request), (err: any) => {
+      assert.strictEqual(err.status, 403);
+      assert.strictEqual(err.type, 'entity.verify.failed');
+      return true;
+    });
+  });
+
+  it('should reject when signal is aborted', async function () {
+    const webParser = getWebParser(getRawParser());
+    const headers = new Headers({ 'Content-Type': 'application/octet-stream' });
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new Uint8Array(1));
+      },
+    });
+
+    await assert.rejects(webParser(stream, headers, AbortSignal.abort()), (err: any) => {
+      assert.strictEqual(err.name, 'AbortError');
+      assert.strictEqual(err.type, 'request.aborted');
+      return true;
+    });
+  });
+});
+
+describe('fromWeb()', function () {
+  it('should convert headers', function () {
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Custom': 'foo' },
+      body: '{}',
+    });
+
+    const { headers } = fromWeb(request);
+    assert.strictEqual(headers['content-type'], 'application/json');
+    assert.strictEqual(headers['x-custom'], 'foo');
+    assert.strictEqual(headers['transfer-encoding'], 'chunked');
+  });
+
+  it('should not set transfer-encoding with content-length', function () {
+    const headers = new Headers({ 'Content-Length': '2' });
+    const { headers: nodeHeaders } = fromWeb(new ReadableStream(), headers);
+    assert.strictEqual(nodeHeaders['content-length'], '2');
+    assert.strictEqual(nodeHeaders['transfer-encoding'], undefined);
+  });
+
+  it('should reject invalid input', function () {
+    assert.throws(() => fromWeb('foo' as any), /TypeError: argument request must be a Request or a ReadableStream/);
+    assert.throws(
+      () => fromWeb(new ReadableStream(), {} as any),
+      /TypeError: argument headers must be a Headers object/,
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+
+import type { BodyParser, WebBodyParser, WebRequest } from './types.js';
+
+/**
+ * Converts a web `Request`, or a `ReadableStream` with its `Headers`, into a Node.js `Readable`
+ * and `IncomingHttpHeaders`, so that they can be passed to any parser of this module:
+ *
+ * ```ts
+import { fromWeb, getJsonParser } from '@ts-stack/body-parser';
+
+const jsonParser = getJsonParser();
+const { req, headers } = fromWeb(request);
+const body = await jsonParser(req, headers);
+ * ```
+ */
+export function fromWeb(request: WebRequest): { req: Readable; headers: IncomingHttpHeaders };
+export function fromWeb(
+  body: ReadableStream<Uint8Array> | null,
+  headers: Headers,
+): { req: Readable; headers: IncomingHttpHeaders };
+export function fromWeb(
+  input: WebRequest | ReadableStream<Uint8Array> | null,
+  webHeaders?: Headers,
+): { req: Readable; headers: IncomingHttpHeaders } {
+  let body: ReadableStream<Uint8Array> | null;
+
+  if (isReadableStream(input) || input === null) {
+    if (!webHeaders || typeof webHeaders.forEach != 'function') {
+      throw new TypeError('argument headers must be a Headers object');
+    }
+
+    body = input;
+  } else if (input && typeof input == 'object' && input.headers) {
+    body = input.body;
+    webHeaders = input.headers;
+  } else {
+    throw new TypeError('argument request must be a Request or a ReadableStream');
+  }
+
+  const headers = toIncomingHttpHeaders(webHeaders!);
+
+  // a web body does not have to declare its length
+  if (body && headers['content-length'] === undefined && headers['transfer-encoding'] === undefined) {
+    headers['transfer-encoding'] = 'chunked';
+  }
+
+  const req = body ? Readable.fromWeb(body as WebReadableStream<Uint8Array>) : Readable.from([]);
+  return { req, headers };
+}
+
+/**
+ * Returns parser that accepts a web `Request`, or a `ReadableStream` with its `Headers`,
+ * instead of a Node.js `Readable` and `IncomingHttpHeaders`. The body is read and parsed
+ * by the given `parser`, so it behaves the same way for both kinds of input.
+ *
+ * The `signal` of a `Request` is used to cancel reading, unless another signal is passed.
+ */
+export function getWebParser(parser: BodyParser): WebBodyParser {
+  return function webParser(
+    input: WebRequest | ReadableStream<Uint8Array> | null,
+    headersOrSignal?: Headers | AbortSignal,
+    signal?: AbortSignal,
+  ) {
+    if (isReadableStream(input) || input === null) {
+      const { req, headers } = fromWeb(input, headersOrSignal as Headers);
+      return parser(req, headers, signal);
+    }
+
+    const { req, headers } = fromWeb(input);
+    return parser(req, headers, (headersOrSignal as AbortSignal | undefined) || input.signal);
+  } as WebBodyParser;
+}
+
+/**
+ * Convert web `Headers` to the headers of a Node.js request.
+ */
+function toIncomingHttpHeaders(webHeaders: Headers) {
+  const headers: IncomingHttpHeaders = {};
+
+  webHeaders.forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  return headers;
+}
+
+function isReadableStream(input: unknown): input is ReadableStream<Uint8Array> {
+  return Boolean(input) && typeof (input as ReadableStream).getReader == 'function';
+}
@@ -0,0 +1,750 @@
+import createError from 'http-errors';
+
+import type { XmlElement } from './types.js';
+import { setOwnProperty } from './utils.js';
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+
+const PREDEFINED_ENTITIES = new Map([
+  ['lt', '<'],
+  ['gt', '>'],
+  ['amp', '&'],
+  ['quot', '"'],
+  ['apos', '\u0027'],
+]);
+
+const NAME_START_CHAR =
+  ':A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C\\u200D\\u2070-\\uFFFD';
+const NAME_CHAR = NAME_START_CHAR + '\\-.0-9\\u00B7\\u0300-\\u036F\\u203F\\u2040';
+
+/**
+ * RegExp to match a name at the current position. Surrogate pairs are matched
+ * as name characters.
+ */
+const NAME_REGEXP = new RegExp(`[${NAME_START_CHAR}][${NAME_CHAR}]*`, 'y');
+const FULL_NAME_REGEXP = new RegExp(`^[${NAME_START_CHAR}][${NAME_CHAR}]*$`);
+const CHAR_REFERENCE_REGEXP = /^#(?:x[0-9A-Fa-f]+|[0-9]+)$/;
+const WHITESPACE_REGEXP = /[ \t\r\n]*/y;
+
+/**
+ * The type of errors of a DOCTYPE that is not allowed.
+ */
+const DOCTYPE_ERROR = 'entity.parse.doctype';
+
+export interface XmlParserOptions {
+  /**
+   * When `true`, the root `XmlElement` is returned instead of a plain object.
+   */
+  dom?: boolean;
+  allowDoctype?: boolean;
+  namespaces?: boolean;
+  maxDepth?: number;
+  maxEntityExpansions?: number;
+  maxExpandedLength?: number;
+}
+
+/**
+ * An entity declared in the DOCTYPE. External entities have no value.
+ */
+interface XmlEntity {
+  value?: string;
+}
+
+/**
+ * An element that is being parsed.
+ */
+interface OpenElement {
+  node: XmlElement;
+  namespaces: Map<string, string>;
+  /**
+   * The values of the child elements, by name, for plain objects.
+   */
+  values: [string, any][];
+  /**
+   * The text of the element, for plain objects.
+   */
+  text: string;
+}
+
+/**
+ * Parser of XML documents. The document is parsed without recursion, so that deeply nested
+ * elements can't overflow the stack.
+ *
+ * A DOCTYPE is only accepted with the `allowDoctype` option. Even then, only the internal
+ * entities declared in it are expanded, with limits on the number of expansions and the number
+ * of expanded characters, and external DTDs and entities are never loaded.
+ *
+ * Malformed documents are reported with a 400 error with the `'entity.parse.failed'` type
+ * and the `position`, `line` and `column` of the error.
+ */
+export class XmlParser {
+  protected text = '';
+  protected pos = 0;
+  protected stack: OpenElement[] = [];
+  protected entities = new Map<string, XmlEntity>();
+  protected expansions = 0;
+  protected expandedLength = 0;
+  protected result: any;
+
+  constructor(protected options: XmlParserOptions = {}) {}
+
+  parse(text: string) {
+    this.text = text;
+    this.pos = 0;
+    this.stack = [];
+    this.entities = new Map();
+    this.expansions = 0;
+    this.expandedLength = 0;
+    this.result = undefined;
+
+    let hasRoot = false;
+    let hasDoctype = false;
+
+    while (this.pos < text.length) {
+      const open = this.stack[this.stack.length - 1];
+
+      if (text[this.pos] !== '<') {
+        this.readText(open);
+      } else if (text.startsWith('<!--', this.pos)) {
+        this.skipPast('-->', this.pos + 4);
+      } else if (text.startsWith('<?', this.pos)) {
+        // the XML declaration and processing instructions
+        this.skipPast('?>', this.pos + 2);
+      } else if (text.startsWith('</', this.pos) && open) {
+        this.readEndTag(open);
+      } else if (text.startsWith('<![CDATA[', this.pos) && open) {
+        const start = this.pos + 9;
+        this.skipPast(']]>', start);
+        this.addText(open, normalizeLineEndings(text.slice(start, this.pos - 3)));
+      } else if (text.startsWith('<!DOCTYPE', this.pos) && !hasRoot && !hasDoctype) {
+        if (!this.options.allowDoctype) {
+          throw this.createSyntaxError('XML DOCTYPE is not allowed', this.pos, DOCTYPE_ERROR);
+        }
+
+        hasDoctype = true;
+        this.readDoctype();
+      } else if (!open && hasRoot) {
+        throw this.createSyntaxError('Unexpected XML element after root element', this.pos);
+      } else {
+        hasRoot = true;
+        this.readStartTag();
+      }
+    }
+
+    if (!hasRoot || this.stack.length) {
+      throw this.createSyntaxError('Unexpected end of XML input', text.length);
+    }
+
+    return this.result;
+  }
+
+  protected readText(open: OpenElement | undefined) {
+    const end = this.text.indexOf('<', this.pos);
+    const raw = this.text.slice(this.pos, end === -1 ? this.text.length : end);
+
+    if (open) {
+      this.addText(open, this.decode(raw, this.pos, normalizeLineEndings));
+    } else if (/\S/.test(raw)) {
+      throw this.createSyntaxError('Unexpected text outside of XML root element', this.pos + raw.search(/\S/));
+    }
+
+    this.pos += raw.length;
+  }
+
+  protected addText(open: OpenElement, value: string) {
+    if (!value) {
+      return;
+    }
+
+    if (!this.options.dom) {
+      open.text += value;
+      return;
+    }
+
+    const children = open.node.children;
+    const last = children[children.length - 1];
+
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      children.push({ type: 'text', value });
+    }
+  }
+
+  protected readStartTag() {
+    const start = this.pos++;
+    const name = this.readName();
+    const attributes: Record<string, string> = {};
+    let isEmpty = false;
+
+    for (;;) {
+      const hasWhitespace = this.skipWhitespace();
+
+      if (this.text[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+
+      if (this.text.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        isEmpty = true;
+        break;
+      }
+
+      if (!hasWhitespace) {
+        throw this.createUnexpectedError();
+      }
+
+      const attributePosition = this.pos;
+      const attributeName = this.readName();
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+
+      const valuePosition = this.pos + 1;
+      const raw = this.readQuoted();
+      const lt = raw.indexOf('<');
+
+      if (lt !== -1) {
+        throw this.createSyntaxError(`Unexpected character '${raw[lt]}' in XML`, valuePosition + lt);
+      }
+
+      if (Object.prototype.hasOwnProperty.call(attributes, attributeName)) {
+        throw this.createSyntaxError(`Duplicate XML attribute "${attributeName}"`, attributePosition);
+      }
+
+      setOwnProperty(attributes, attributeName, this.decode(raw, valuePosition, normalizeAttributeValue));
+    }
+
+    const { maxDepth } = this.options;
+    const parent = this.stack[this.stack.length - 1];
+
+    if (maxDepth !== undefined && this.stack.length + 1 > maxDepth) {
+      throw createError(413, 'XML depth limit exceeded', {
+        limit: maxDepth,
+        path: '/' + [...this.stack.map((open) => open.node.name), name].join('/'),
+        type: 'entity.depth.exceeded',
+      });
+    }
+
+    const node: XmlElement = {
+      type: 'element',
+      name,
+      localName: name,
+      prefix: null,
+      namespaceURI: null,
+      attributes,
+      children: [],
+    };
+    let namespaces = parent ? parent.namespaces : DEFAULT_NAMESPACES;
+
+    if (this.options.namespaces !== false) {
+      namespaces = this.declareNamespaces(namespaces, attributes, start);
+      this.resolveNamespace(node, namespaces, start);
+    }
+
+    this.stack.push({ node, namespaces, values: [], text: '' });
+
+    if (isEmpty) {
+      this.closeElement();
+    }
+  }
+
+  protected readEndTag(open: OpenElement) {
+    const start = this.pos;
+    this.pos += 2;
+    const name = this.readName();
+
+    if (name !== open.node.name) {
+      throw this.createSyntaxError(`Mismatched XML end tag "${name}", expected "${open.node.name}"`, start);
+    }
+
+    this.skipWhitespace();
+    this.expect('>');
+    this.closeElement();
+  }
+
+  /**
+   * Pop the current element, and add it to its parent, or set it as the result.
+   */
+  protected closeElement() {
+    const open = this.stack.pop()!;
+    const parent = this.stack[this.stack.length - 1];
+    const value = this.options.dom ? open.node : toObjectValue(open);
+
+    if (!parent) {
+      this.result = value;
+
+      if (!this.options.dom) {
+        this.result = {};
+        setOwnProperty(this.result, open.node.name, value);
+      }
+    } else if (this.options.dom) {
+      parent.node.children.push(open.node);
+    } else {
+      parent.values.push([open.node.name, value]);
+    }
+  }
+
+  protected declareNamespaces(namespaces: Map<string, string>, attributes: Record<string, string>, start: number) {
+    let declared = namespaces;
+
+    for (const name of Object.keys(attributes)) {
+      if (name !== 'xmlns' && !name.startsWith('xmlns:')) {
+        continue;
+      }
+
+      const prefix = name === 'xmlns' ? '' : name.slice(6);
+
+      if (prefix && !attributes[name]) {
+        throw this.createSyntaxError(`Empty XML namespace of prefix "${prefix}"`, start);
+      }
+
+      if (declared === namespaces) {
+        declared = new Map(namespaces);
+      }
+
+      declared.set(prefix, attributes[name]);
+    }
+
+    for (const name of Object.keys(attributes)) {
+      const colon = name.indexOf(':');
+
+      if (colon !== -1 && !name.startsWith('xmlns:')) {
+        this.getNamespace(name.slice(0, colon), declared, start);
+      }
+    }
+
+    return declared;
+  }
+
+  protected resolveNamespace(node: XmlElement, namespaces: Map<string, string>, start: number) {
+    const colon = node.name.indexOf(':');
+
+    if (colon === -1) {
+      node.namespaceURI = namespaces.get('') || null;
+      return;
+    }
+
+    node.prefix = node.name.slice(0, colon);
+    node.localName = node.name.slice(colon + 1);
+    node.namespaceURI = this.getNamespace(node.prefix, namespaces, start);
+  }
+
+  protected getNamespace(prefix: string, namespaces: Map<string, string>, start: number) {
+    const namespace = namespaces.get(prefix);
+
+    if (!namespace) {
+      throw this.createSyntaxError(`Unbound XML namespace prefix "${prefix}"`, start);
+    }
+
+    return namespace;
+  }
+
+  protected readDoctype() {
+    this.pos += 9;
+
+    if (!this.skipWhitespace()) {
+      throw this.createUnexpectedError();
+    }
+
+    this.readName();
+
+    // the external DTD is never loaded, so its identifiers are skipped
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+
+      if (char === '>') {
+        this.pos++;
+        return;
+      }
+
+      if (char === '[') {
+        this.pos++;
+        this.readInternalSubset();
+      } else if (isQuote(char)) {
+        this.readQuoted();
+      } else {
+        this.readName();
+      }
+    }
+  }
+
+  protected readInternalSubset() {
+    for (;;) {
+      this.skipWhitespace();
+
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return;
+      }
+
+      if (this.text.startsWith('<!--', this.pos)) {
+        this.skipPast('-->', this.pos + 4);
+      } else if (this.text.startsWith('<?', this.pos)) {
+        this.skipPast('?>', this.pos + 2);
+      } else if (this.text.startsWith('<!ENTITY', this.pos)) {
+        this.readEntityDeclaration();
+      } else if (this.text.startsWith('<!', this.pos)) {
+        this.skipDeclaration();
+      } else if (this.text[this.pos] === '%') {
+        throw this.createSyntaxError('XML parameter entities are not supported', this.pos, DOCTYPE_ERROR);
+      } else {
+        throw this.createUnexpectedError();
+      }
+    }
+  }
+
+  protected readEntityDeclaration() {
+    this.pos += 8;
+    let isParameter = false;
+
+    if (!this.skipWhitespace()) {
+      throw this.createUnexpectedError();
+    }
+
+    if (this.text[this.pos] === '%') {
+      isParameter = true;
+      this.pos++;
+
+      if (!this.skipWhitespace()) {
+        throw this.createUnexpectedError();
+      }
+    }
+
+    const name = this.readName();
+
+    if (!this.skipWhitespace()) {
+      throw this.createUnexpectedError();
+    }
+
+    const entity: XmlEntity = {};
+    const char = this.text[this.pos];
+
+    // an external entity has a SYSTEM or PUBLIC identifier instead of a value
+    if (isQuote(char)) {
+      const valuePosition = this.pos + 1;
+      const value = this.readQuoted();
+      const percent = value.indexOf('%');
+
+      if (percent !== -1) {
+        throw this.createSyntaxError(
+          'XML parameter entities are not supported',
+          valuePosition + percent,
+          DOCTYPE_ERROR,
+        );
+      }
+
+      entity.value = normalizeLineEndings(value);
+    }
+
+    this.skipDeclaration();
+
+    // the first declaration of an entity is binding
+    if (!isParameter && !this.entities.has(name)) {
+      this.entities.set(name, entity);
+    }
+  }
+
+  /**
+   * Skip the rest of a markup declaration.
+   */
+  protected skipDeclaration() {
+    for (;;) {
+      const char = this.text[this.pos];
+
+      if (isQuote(char)) {
+        this.readQuoted();
+        continue;
+      }
+
+      if (char === undefined) {
+        throw this.createUnexpectedError();
+      }
+
+      this.pos++;
+
+      if (char === '>') {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Replace the references of text or an attribute value, and normalize the rest.
+   */
+  protected decode(raw: string, position: number, normalize: (str: string) => string) {
+    let result = '';
+    let index = 0;
+
+    for (;;) {
+      const amp = raw.indexOf('&', index);
+
+      if (amp === -1) {
+        return result + normalize(raw.slice(index));
+      }
+
+      const semicolon = raw.indexOf(';', amp);
+      const name = semicolon === -1 ? '' : raw.slice(amp + 1, semicolon);
+      result += normalize(raw.slice(index, amp)) + this.resolveReference(name, position + amp);
+      index = semicolon + 1;
+    }
+  }
+
+  protected resolveReference(name: string, position: number) {
+    if (CHAR_REFERENCE_REGEXP.test(name)) {
+      const code = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+
+      if (!isXmlChar(code)) {
+        throw this.createSyntaxError(`Invalid XML character reference "&${name};"`, position);
+      }
+
+      return String.fromCodePoint(code);
+    }
+
+    if (!FULL_NAME_REGEXP.test(name)) {
+      throw this.createSyntaxError('Invalid XML reference', position);
+    }
+
+    return PREDEFINED_ENTITIES.get(name) ?? this.expandEntity(name, position);
+  }
+
+  /**
+   * Expand a reference to a declared entity, with the references in its value,
+   * without recursion.
+   */
+  protected expandEntity(name: string, position: number) {
+    const expanding: { name: string; value: string; index: number }[] = [];
+    let result = '';
+
+    const push = (entityName: string) => {
+      const entity = this.entities.get(entityName);
+      const { maxEntityExpansions } = this.options;
+
+      if (!entity) {
+        throw this.createSyntaxError(`Undefined XML entity "${entityName}"`, position);
+      }
+
+      if (entity.value === undefined) {
+        throw this.createSyntaxError(`External XML entity "${entityName}" is not allowed`, position, DOCTYPE_ERROR);
+      }
+
+      if (expanding.some((item) => item.name === entityName)) {
+        throw this.createSyntaxError(`Recursive XML entity "${entityName}"`, position);
+      }
+
+      if (maxEntityExpansions !== undefined && ++this.expansions > maxEntityExpansions) {
+        throw createError(413, 'too many XML entity expansions', {
+          limit: maxEntityExpansions,
+          type: 'entity.expansions.exceeded',
+        });
+      }
+
+      if (entity.value.includes('<')) {
+        throw this.createSyntaxError(`XML entity "${entityName}" with markup is not supported`, position);
+      }
+
+      expanding.push({ name: entityName, value: entity.value, index: 0 });
+    };
+
+    const append = (str: string) => {
+      const { maxExpandedLength } = this.options;
+      this.expandedLength += str.length;
+
+      if (maxExpandedLength !== undefined && this.expandedLength > maxExpandedLength) {
+        throw createError(413, 'XML entity expansion too long', {
+          limit: maxExpandedLength,
+          type: 'entity.expansion.length.exceeded',
+        });
+      }
+
+      result += str;
+    };
+
+    push(name);
+
+    while (expanding.length) {
+      const item = expanding[expanding.length - 1];
+      const amp = item.value.indexOf('&', item.index);
+
+      if (amp === -1) {
+        append(item.value.slice(item.index));
+        expanding.pop();
+        continue;
+      }
+
+      append(item.value.slice(item.index, amp));
+      const semicolon = item.value.indexOf(';', amp);
+      const ref = semicolon === -1 ? '' : item.value.slice(amp + 1, semicolon);
+      item.index = semicolon + 1;
+
+      if (CHAR_REFERENCE_REGEXP.test(ref) || PREDEFINED_ENTITIES.has(ref)) {
+        append(this.resolveReference(ref, position));
+      } else if (FULL_NAME_REGEXP.test(ref)) {
+        push(ref);
+      } else {
+        throw this.createSyntaxError(`Invalid reference in XML entity "${item.name}"`, position);
+      }
+    }
+
+    return result;
+  }
+
+  protected readName() {
+    NAME_REGEXP.lastIndex = this.pos;
+    const match = NAME_REGEXP.exec(this.text);
+
+    if (!match) {
+      throw this.createUnexpectedError();
+    }
+
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  protected readQuoted() {
+    const quote = this.text[this.pos];
+
+    if (!isQuote(quote)) {
+      throw this.createUnexpectedError();
+    }
+
+    const end = this.text.indexOf(quote, this.pos + 1);
+
+    if (end === -1) {
+      throw this.createSyntaxError('Unexpected end of XML input', this.text.length);
+    }
+
+    const value = this.text.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  /**
+   * Skip whitespace, and return whether there was any.
+   */
+  protected skipWhitespace() {
+    WHITESPACE_REGEXP.lastIndex = this.pos;
+    WHITESPACE_REGEXP.exec(this.text);
+    const skipped = WHITESPACE_REGEXP.lastIndex > this.pos;
+    this.pos = WHITESPACE_REGEXP.lastIndex;
+    return skipped;
+  }
+
+  protected skipPast(str: string, start: number) {
+    const end = this.text.indexOf(str, start);
+
+    if (end === -1) {
+      throw this.createSyntaxError('Unexpected end of XML input', this.text.length);
+    }
+
+    this.pos = end + str.length;
+  }
+
+  protected expect(char: string) {
+    if (this.text[this.pos] !== char) {
+      throw this.createUnexpectedError();
+    }
+
+    this.pos++;
+  }
+
+  protected createUnexpectedError() {
+    if (this.pos >= this.text.length) {
+      return this.createSyntaxError('Unexpected end of XML input', this.text.length);
+    }
+
+    return this.createSyntaxError(`Unexpected character '${this.text[this.pos]}' in XML`, this.pos);
+  }
+
+  protected createSyntaxError(message: string, position: number, type = 'entity.parse.failed') {
+    const lineStart = this.text.lastIndexOf('\n', position - 1) + 1;
+    const line = countLines(this.text, lineStart);
+    const column = position - lineStart + 1;
+
+    return createError(400, `${message} at position ${position} (line ${line} column ${column})`, {
+      position,
+      line,
+      column,
+      type,
+    });
+  }
+}
+
+/**
+ * The namespaces that are declared implicitly.
+ */
+const DEFAULT_NAMESPACES = new Map([
+  ['xml', XML_NAMESPACE],
+  ['xmlns', XMLNS_NAMESPACE],
+]);
+
+/**
+ * Get the value of an element for a plain object.
+ */
+function toObjectValue({ node, values, text }: OpenElement) {
+  const attributeNames = Object.keys(node.attributes);
+
+  if (!attributeNames.length && !values.length) {
+    return text;
+  }
+
+  const obj: Record<string, any> = {};
+  const arrays = new Set<string>();
+
+  for (const name of attributeNames) {
+    setOwnProperty(obj, '@' + name, node.attributes[name]);
+  }
+
+  if (/\S/.test(text)) {
+    obj['#text'] = text.trim();
+  }
+
+  for (const [name, value] of values) {
+    if (arrays.has(name)) {
+      obj[name].push(value);
+    } else if (Object.prototype.hasOwnProperty.call(obj, name)) {
+      setOwnProperty(obj, name, [obj[name], value]);
+      arrays.add(name);
+    } else {
+      setOwnProperty(obj, name, value);
+    }
+  }
+
+  return obj;
+}
+
+function isQuote(char: string | undefined) {
+  return char === '"' || char === '\u0027';
+}
+
+function normalizeLineEndings(str: string) {
+  return str.replace(/\r\n?/g, '\n');
+}
+
+function normalizeAttributeValue(str: string) {
+  return str.replace(/\r\n|[\t\n\r]/g, ' ');
+}
+
+function isXmlChar(code: number) {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  );
+}
+
+function countLines(text: string, end: number) {
+  let line = 1;
+
+  for (let index = text.indexOf('\n'); index !== -1 && index < end; index = text.indexOf('\n', index + 1)) {
+    line++;
+  }
+
+  return line;
+}